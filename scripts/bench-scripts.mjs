@@ -0,0 +1,74 @@
+/**
+ * Compare sending the fixed-window script with EVAL on every call against
+ * calling it by SHA through the script registry
+ *
+ * Usage: npm run bench:scripts -- [iterations]
+ * Needs a running Redis at REDIS_URL (or the REDIS_MODE settings).
+ */
+import { fileURLToPath } from "node:url"
+import path from "node:path"
+import createJiti from "jiti"
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..")
+const jiti = createJiti(import.meta.url, {
+  alias: { "@": path.join(root, "src") },
+})
+
+// Loading the rate limiter registers its scripts
+jiti("../src/lib/redis/rate-limiter.ts")
+const { ensureRedisConnected, getRedisClient, disconnectRedis } = jiti("../src/lib/redis/client.ts")
+const { evalScript, getScript } = jiti("../src/lib/redis/scripts.ts")
+const { getMinuteKey, getDayKey } = jiti("../src/lib/redis/keys.ts")
+
+const iterations = parseInt(process.argv[2] ?? "5000", 10)
+const script = getScript("rateLimit")
+
+const apiKey = `bench_${Date.now()}`
+const keys = [getMinuteKey(apiKey), getDayKey(apiKey)]
+// Limits high enough that every call is counted
+const args = ["120000", "172800000", String(iterations * 4), String(iterations * 4), "1"]
+
+async function measure(label, call) {
+  const timings = []
+  const start = process.hrtime.bigint()
+  for (let i = 0; i < iterations; i++) {
+    const callStart = process.hrtime.bigint()
+    await call()
+    timings.push(Number(process.hrtime.bigint() - callStart) / 1e6)
+  }
+  const totalMs = Number(process.hrtime.bigint() - start) / 1e6
+
+  timings.sort((a, b) => a - b)
+  const percentile = (p) => timings[Math.min(timings.length - 1, Math.floor(timings.length * p))]
+  console.log(
+    `${label.padEnd(8)} ${Math.round((iterations / totalMs) * 1000)} ops/s` +
+      `  avg ${(totalMs / iterations).toFixed(3)}ms` +
+      `  p50 ${percentile(0.5).toFixed(3)}ms` +
+      `  p99 ${percentile(0.99).toFixed(3)}ms`
+  )
+}
+
+async function main() {
+  await ensureRedisConnected()
+  const client = getRedisClient()
+
+  console.log(`${iterations} sequential calls of the "${script.name}" script`)
+  console.log(`Script body sent per call: EVAL ${script.lua.length} bytes, EVALSHA 40 bytes\n`)
+
+  // Warm up the connection and the server's script cache
+  for (let i = 0; i < 100; i++) {
+    await evalScript(script, keys, args)
+  }
+
+  await measure("EVAL", () => client.eval(script.lua, keys.length, ...keys, ...args))
+  await measure("EVALSHA", () => evalScript(script, keys, args))
+
+  await client.del(...keys)
+}
+
+main()
+  .catch((err) => {
+    console.error(err)
+    process.exitCode = 1
+  })
+  .finally(() => disconnectRedis())
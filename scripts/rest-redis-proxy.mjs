@@ -0,0 +1,63 @@
+/**
+ * Local stand-in for a hosted Redis REST endpoint, so the edge middleware can
+ * be run against the same Redis as the rest of the app
+ *
+ * Accepts the protocol the REST storage backend speaks: POST a JSON array of
+ * command arguments with "Authorization: Bearer <REDIS_REST_TOKEN>", get back
+ * { "result": ... } or { "error": "..." }.
+ *
+ * Usage: npm run redis:rest-proxy
+ * Then set REDIS_REST_URL=http://localhost:8079 (or REST_PROXY_PORT) for the app.
+ * Tests import it against the mocked ioredis and close `server` when done.
+ */
+import http from "node:http"
+import Redis from "ioredis"
+
+const port = parseInt(process.env.REST_PROXY_PORT ?? "8079", 10)
+const token = process.env.REDIS_REST_TOKEN ?? ""
+const redis = new Redis(process.env.REDIS_URL ?? "redis://localhost:6379")
+
+function reply(res, status, body) {
+  res.writeHead(status, { "content-type": "application/json" })
+  res.end(JSON.stringify(body))
+}
+
+export const server = http.createServer(async (req, res) => {
+  if (req.method !== "POST") {
+    return reply(res, 405, { error: "Method not allowed" })
+  }
+  if (token && req.headers.authorization !== `Bearer ${token}`) {
+    return reply(res, 401, { error: "Unauthorized" })
+  }
+
+  let command
+  try {
+    const chunks = []
+    for await (const chunk of req) chunks.push(chunk)
+    command = JSON.parse(Buffer.concat(chunks).toString("utf8"))
+  } catch {
+    return reply(res, 400, { error: "Body must be a JSON array" })
+  }
+  if (!Array.isArray(command) || command.length === 0) {
+    return reply(res, 400, { error: "Body must be a JSON array" })
+  }
+
+  try {
+    const [name, ...args] = command.map(String)
+    reply(res, 200, { result: await redis.call(name, ...args) })
+  } catch (err) {
+    // Command errors go back in the body, as hosted REST endpoints do
+    reply(res, 400, { error: err instanceof Error ? err.message : String(err) })
+  }
+})
+
+server.listen(port, () => {
+  console.log(`🔌 Redis REST proxy listening on http://localhost:${port}`)
+})
+
+function shutdown() {
+  server.close()
+  redis.disconnect()
+}
+process.on("SIGINT", shutdown)
+process.on("SIGTERM", shutdown)
@@ -8,6 +8,7 @@ const createKeySchema = z.object({
   name: z.string().min(1).max(100),
   tier: z.enum(["basic", "standard", "premium"]),
   ownerEmail: z.string().email().optional(),
+  billingAnchorDay: z.number().int().min(1).max(31).optional(),
 })
 
 /**
@@ -27,9 +28,9 @@ export async function POST(request: NextRequest) {
       return error("Invalid request body: " + JSON.stringify(parsed.error.issues), 400)
     }
 
-    const { name, tier, ownerEmail } = parsed.data
+    const { name, tier, ownerEmail, billingAnchorDay } = parsed.data
 
-    const result = await createApiKey(name, tier, ownerEmail)
+    const result = await createApiKey(name, tier, ownerEmail, billingAnchorDay)
 
     return ok({
       id: result.id,
@@ -0,0 +1,41 @@
+import { NextRequest } from "next/server"
+import { requireAdminAuth } from "@/lib/api/auth"
+import { error, ok } from "@/lib/api/response"
+import { getActiveBans, liftBan } from "@/lib/redis/penalty-box"
+import { ensureRedisConnected } from "@/lib/redis/client"
+
+type RouteParams = {
+  params: Promise<{
+    id: string
+  }>
+}
+
+/**
+ * DELETE /api/admin/bans/[id] - Lift the ban on an API key (by key ID) early
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const unauthorized = requireAdminAuth(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    await ensureRedisConnected()
+    const { id } = await params
+
+    const ban = (await getActiveBans()).find((b) => b.apiKeyId === id)
+    if (!ban) {
+      return error("Ban not found", 404)
+    }
+
+    await liftBan(ban.apiKey)
+
+    return ok({ message: "Ban lifted successfully" })
+  } catch (err) {
+    console.error("Error lifting ban:", err)
+    return error(
+      err instanceof Error ? err.message : "Failed to lift ban",
+      500
+    )
+  }
+}
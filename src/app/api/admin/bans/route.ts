@@ -0,0 +1,45 @@
+import { NextRequest } from "next/server"
+import { requireAdminAuth } from "@/lib/api/auth"
+import { error, ok } from "@/lib/api/response"
+import { banSchema } from "@/lib/api/schemas"
+import { getActiveBans } from "@/lib/redis/penalty-box"
+import { ensureRedisConnected } from "@/lib/redis/client"
+import { maskApiKey } from "@/lib/utils"
+
+/**
+ * GET /api/admin/bans - List API keys currently in the penalty box
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = requireAdminAuth(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    await ensureRedisConnected()
+
+    const bans = await getActiveBans()
+    const parsed = banSchema.array().safeParse(
+      bans.map((ban) => ({
+        apiKeyId: ban.apiKeyId,
+        maskedKey: maskApiKey(ban.apiKey),
+        strikes: ban.strikes,
+        bannedAt: ban.bannedAt,
+        expiresAt: ban.expiresAt,
+      }))
+    )
+
+    if (!parsed.success) {
+      console.error("Validation error:", parsed.error)
+      return error("Ban list validation failed", 500)
+    }
+
+    return ok(parsed.data)
+  } catch (err) {
+    console.error("Error fetching bans:", err)
+    return error(
+      err instanceof Error ? err.message : "Failed to fetch bans",
+      500
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest } from "next/server"
+import { requireAdminAuth } from "@/lib/api/auth"
+import { error, ok } from "@/lib/api/response"
+import { detachApiKey } from "@/lib/db/organizations"
+import { ensureRedisConnected } from "@/lib/redis/client"
+
+type RouteParams = {
+  params: Promise<{
+    id: string
+    keyId: string
+  }>
+}
+
+/**
+ * DELETE /api/admin/organizations/[id]/keys/[keyId] - Detach an API key from the organization
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const unauthorized = requireAdminAuth(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    await ensureRedisConnected()
+    const { id, keyId } = await params
+    const detached = await detachApiKey(id, keyId)
+    if (!detached) {
+      return error("API key not found in this organization", 404)
+    }
+
+    return ok({ message: "API key detached successfully" })
+  } catch (err) {
+    console.error("Error detaching API key:", err)
+    return error(
+      err instanceof Error ? err.message : "Failed to detach API key",
+      500
+    )
+  }
+}
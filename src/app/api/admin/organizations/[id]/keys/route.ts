@@ -0,0 +1,47 @@
+import { NextRequest } from "next/server"
+import { requireAdminAuth } from "@/lib/api/auth"
+import { error, ok } from "@/lib/api/response"
+import { attachApiKey } from "@/lib/db/organizations"
+import { ensureRedisConnected } from "@/lib/redis/client"
+import { z } from "zod"
+
+type RouteParams = {
+  params: Promise<{
+    id: string
+  }>
+}
+
+const attachKeySchema = z.object({
+  keyId: z.string().min(1),
+})
+
+/**
+ * POST /api/admin/organizations/[id]/keys - Attach an API key to the organization
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const unauthorized = requireAdminAuth(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    await ensureRedisConnected()
+    const { id } = await params
+    const body = await request.json()
+    const parsed = attachKeySchema.safeParse(body)
+
+    if (!parsed.success) {
+      return error("Invalid request body: " + JSON.stringify(parsed.error.issues), 400)
+    }
+
+    await attachApiKey(id, parsed.data.keyId)
+
+    return ok({ message: "API key attached successfully" })
+  } catch (err) {
+    console.error("Error attaching API key:", err)
+    return error(
+      err instanceof Error ? err.message : "Failed to attach API key",
+      500
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest } from "next/server"
+import { requireAdminAuth } from "@/lib/api/auth"
+import { error, ok } from "@/lib/api/response"
+import { organizationDetailSchema } from "@/lib/api/schemas"
+import {
+  getOrganization,
+  getOrganizationKeyIds,
+  getOrganizationUsage,
+  updateOrganization,
+} from "@/lib/db/organizations"
+import { ensureRedisConnected } from "@/lib/redis/client"
+import { z } from "zod"
+
+type RouteParams = {
+  params: Promise<{
+    id: string
+  }>
+}
+
+const updateOrganizationSchema = z.object({
+  name: z.string().min(1).optional(),
+  perMinute: z.number().int().positive().optional(),
+  perDay: z.number().int().positive().optional(),
+  perMonth: z.number().int().nonnegative().optional(),
+  billingAnchorDay: z.number().int().min(1).max(31).optional(),
+})
+
+/**
+ * GET /api/admin/organizations/[id] - Organization limits, usage and member keys
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const unauthorized = requireAdminAuth(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    await ensureRedisConnected()
+    const { id } = await params
+
+    const organization = await getOrganization(id)
+    if (!organization) {
+      return error("Organization not found", 404)
+    }
+
+    const [usage, keyIds] = await Promise.all([
+      getOrganizationUsage(organization),
+      getOrganizationKeyIds(id),
+    ])
+    const parsed = organizationDetailSchema.safeParse({ ...organization, usage, keyIds })
+
+    if (!parsed.success) {
+      console.error("Validation error:", parsed.error)
+      return error("Organization validation failed", 500)
+    }
+
+    return ok(parsed.data)
+  } catch (err) {
+    console.error("Error fetching organization:", err)
+    return error(
+      err instanceof Error ? err.message : "Failed to fetch organization",
+      500
+    )
+  }
+}
+
+/**
+ * PATCH /api/admin/organizations/[id] - Update the shared limits
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const unauthorized = requireAdminAuth(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    await ensureRedisConnected()
+    const { id } = await params
+    const body = await request.json()
+    const parsed = updateOrganizationSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return error("Invalid request body: " + JSON.stringify(parsed.error.issues), 400)
+    }
+
+    const organization = await updateOrganization(id, parsed.data)
+
+    return ok(organization)
+  } catch (err) {
+    console.error("Error updating organization:", err)
+    return error(
+      err instanceof Error ? err.message : "Failed to update organization",
+      500
+    )
+  }
+}
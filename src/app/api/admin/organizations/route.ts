@@ -0,0 +1,86 @@
+import { NextRequest } from "next/server"
+import { requireAdminAuth } from "@/lib/api/auth"
+import { error, ok } from "@/lib/api/response"
+import { organizationSchema } from "@/lib/api/schemas"
+import {
+  createOrganization,
+  getOrganizationUsage,
+  listOrganizations,
+} from "@/lib/db/organizations"
+import { ensureRedisConnected } from "@/lib/redis/client"
+import { z } from "zod"
+
+const createOrganizationSchema = z.object({
+  name: z.string().min(1),
+  perMinute: z.number().int().positive(),
+  perDay: z.number().int().positive(),
+  perMonth: z.number().int().nonnegative().default(0),
+  billingAnchorDay: z.number().int().min(1).max(31).default(1),
+})
+
+/**
+ * GET /api/admin/organizations - List organizations with their aggregate usage
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = requireAdminAuth(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    await ensureRedisConnected()
+
+    const organizations = await listOrganizations()
+    const withUsage = await Promise.all(
+      organizations.map(async (organization) => ({
+        ...organization,
+        usage: await getOrganizationUsage(organization),
+      }))
+    )
+    const parsed = organizationSchema.array().safeParse(withUsage)
+
+    if (!parsed.success) {
+      console.error("Validation error:", parsed.error)
+      return error("Organization list validation failed", 500)
+    }
+
+    return ok(parsed.data)
+  } catch (err) {
+    console.error("Error fetching organizations:", err)
+    return error(
+      err instanceof Error ? err.message : "Failed to fetch organizations",
+      500
+    )
+  }
+}
+
+/**
+ * POST /api/admin/organizations - Create an organization with shared limits
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = requireAdminAuth(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    await ensureRedisConnected()
+
+    const body = await request.json()
+    const parsed = createOrganizationSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return error("Invalid request body: " + JSON.stringify(parsed.error.issues), 400)
+    }
+
+    const organization = await createOrganization(parsed.data)
+
+    return ok(organization)
+  } catch (err) {
+    console.error("Error creating organization:", err)
+    return error(
+      err instanceof Error ? err.message : "Failed to create organization",
+      500
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server"
+import { requireAdminAuth } from "@/lib/api/auth"
+import { error, ok } from "@/lib/api/response"
+import { cancelOverride } from "@/lib/db/overrides"
+import { ensureRedisConnected } from "@/lib/redis/client"
+
+type RouteParams = {
+  params: Promise<{
+    id: string
+  }>
+}
+
+/**
+ * DELETE /api/admin/overrides/[id] - Cancel a limit override before it ends
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const unauthorized = requireAdminAuth(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    await ensureRedisConnected()
+    const { id } = await params
+    await cancelOverride(id)
+
+    return ok({ message: "Override cancelled successfully" })
+  } catch (err) {
+    console.error("Error cancelling override:", err)
+    return error(
+      err instanceof Error ? err.message : "Failed to cancel override",
+      500
+    )
+  }
+}
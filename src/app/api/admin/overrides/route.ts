@@ -0,0 +1,93 @@
+import { NextRequest } from "next/server"
+import { requireAdminAuth } from "@/lib/api/auth"
+import { error, ok } from "@/lib/api/response"
+import { limitOverrideSchema } from "@/lib/api/schemas"
+import { createOverride, listOverrides } from "@/lib/db/overrides"
+import { ensureRedisConnected } from "@/lib/redis/client"
+import { z } from "zod"
+
+const createOverrideSchema = z
+  .object({
+    targetType: z.enum(["key", "tier"]),
+    targetId: z.string().min(1),
+    perMinute: z.number().int().positive().nullable().default(null),
+    perDay: z.number().int().positive().nullable().default(null),
+    perMonth: z.number().int().nonnegative().nullable().default(null),
+    startsAt: z.iso.datetime({ offset: true }).optional(),
+    endsAt: z.iso.datetime({ offset: true }),
+    reason: z.string().nullable().default(null),
+  })
+  .refine(
+    (o) => o.perMinute !== null || o.perDay !== null || o.perMonth !== null,
+    "At least one of perMinute, perDay or perMonth is required"
+  )
+  .refine(
+    (o) => new Date(o.endsAt).getTime() > new Date(o.startsAt ?? Date.now()).getTime(),
+    "endsAt must be after startsAt"
+  )
+
+/**
+ * GET /api/admin/overrides - List active and scheduled limit overrides
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = requireAdminAuth(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    await ensureRedisConnected()
+
+    const overrides = await listOverrides()
+    const parsed = limitOverrideSchema.array().safeParse(overrides)
+
+    if (!parsed.success) {
+      console.error("Validation error:", parsed.error)
+      return error("Override list validation failed", 500)
+    }
+
+    return ok(parsed.data)
+  } catch (err) {
+    console.error("Error fetching overrides:", err)
+    return error(
+      err instanceof Error ? err.message : "Failed to fetch overrides",
+      500
+    )
+  }
+}
+
+/**
+ * POST /api/admin/overrides - Schedule a limit override for a key or tier
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = requireAdminAuth(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    await ensureRedisConnected()
+
+    const body = await request.json()
+    const parsed = createOverrideSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return error("Invalid request body: " + JSON.stringify(parsed.error.issues), 400)
+    }
+
+    const override = await createOverride({
+      ...parsed.data,
+      // Starts immediately unless scheduled; stored in UTC so windows compare as strings
+      startsAt: new Date(parsed.data.startsAt ?? Date.now()).toISOString(),
+      endsAt: new Date(parsed.data.endsAt).toISOString(),
+    })
+
+    return ok(override)
+  } catch (err) {
+    console.error("Error creating override:", err)
+    return error(
+      err instanceof Error ? err.message : "Failed to create override",
+      500
+    )
+  }
+}
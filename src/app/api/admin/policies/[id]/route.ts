@@ -0,0 +1,69 @@
+import { NextRequest } from "next/server"
+import { requireAdminAuth } from "@/lib/api/auth"
+import { error, ok } from "@/lib/api/response"
+import { deletePolicy, updatePolicy } from "@/lib/db/policies"
+import { ensureRedisConnected } from "@/lib/redis/client"
+import { z } from "zod"
+
+type RouteParams = {
+  params: Promise<{
+    id: string
+  }>
+}
+
+const updatePolicySchema = z.object({
+  endpoint: z.string().min(1).optional(),
+  method: z.enum(["GET", "POST", "PUT", "PATCH", "DELETE"]).nullable().optional(),
+  perMinute: z.number().positive().optional(),
+  perDay: z.number().positive().nullable().optional(),
+  cost: z.number().int().positive().nullable().optional(),
+})
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const unauthorized = requireAdminAuth(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    await ensureRedisConnected()
+    const { id } = await params
+    const body = await request.json()
+    const parsed = updatePolicySchema.safeParse(body)
+
+    if (!parsed.success) {
+      return error("Invalid request body: " + JSON.stringify(parsed.error.issues), 400)
+    }
+
+    const policy = await updatePolicy(id, parsed.data)
+
+    return ok(policy)
+  } catch (err) {
+    console.error("Error updating policy:", err)
+    return error(
+      err instanceof Error ? err.message : "Failed to update policy",
+      500
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const unauthorized = requireAdminAuth(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    await ensureRedisConnected()
+    const { id } = await params
+    await deletePolicy(id)
+
+    return ok({ message: "Policy deleted successfully" })
+  } catch (err) {
+    console.error("Error deleting policy:", err)
+    return error(
+      err instanceof Error ? err.message : "Failed to delete policy",
+      500
+    )
+  }
+}
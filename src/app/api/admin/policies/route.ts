@@ -0,0 +1,74 @@
+import { NextRequest } from "next/server"
+import { requireAdminAuth } from "@/lib/api/auth"
+import { error, ok } from "@/lib/api/response"
+import { endpointPolicySchema } from "@/lib/api/schemas"
+import { createPolicy, listPolicies } from "@/lib/db/policies"
+import { ensureRedisConnected } from "@/lib/redis/client"
+import { z } from "zod"
+
+const createPolicySchema = endpointPolicySchema.omit({ id: true }).extend({
+  method: z.enum(["GET", "POST", "PUT", "PATCH", "DELETE"]).nullable().default(null),
+  perDay: z.number().positive().nullable().default(null),
+  cost: z.number().int().positive().nullable().default(null),
+})
+
+/**
+ * GET /api/admin/policies - List endpoint rate limit policies
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = requireAdminAuth(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    await ensureRedisConnected()
+
+    const policies = await listPolicies()
+    const parsed = endpointPolicySchema.array().safeParse(policies)
+
+    if (!parsed.success) {
+      console.error("Validation error:", parsed.error)
+      return error("Policy list validation failed", 500)
+    }
+
+    return ok(parsed.data)
+  } catch (err) {
+    console.error("Error fetching policies:", err)
+    return error(
+      err instanceof Error ? err.message : "Failed to fetch policies",
+      500
+    )
+  }
+}
+
+/**
+ * POST /api/admin/policies - Create an endpoint rate limit policy
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = requireAdminAuth(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    await ensureRedisConnected()
+
+    const body = await request.json()
+    const parsed = createPolicySchema.safeParse(body)
+
+    if (!parsed.success) {
+      return error("Invalid request body: " + JSON.stringify(parsed.error.issues), 400)
+    }
+
+    const policy = await createPolicy(parsed.data)
+
+    return ok(policy)
+  } catch (err) {
+    console.error("Error creating policy:", err)
+    return error(
+      err instanceof Error ? err.message : "Failed to create policy",
+      500
+    )
+  }
+}
@@ -5,6 +5,9 @@ import { dashboardPayloadSchema } from "@/lib/api/schemas"
 import { ensureRedisConnected } from "@/lib/redis/client"
 import { getRecentEvents, getEventCount } from "@/lib/redis/events"
 import { listApiKeys } from "@/lib/db/api-keys"
+import { getAdaptiveLimitsConfig, getLoadSheddingConfig } from "@/lib/db/settings"
+import { getAdaptiveState } from "@/lib/redis/adaptive-limits"
+import { getGlobalLoad } from "@/lib/redis/load-shedding"
 
 export async function GET(request: NextRequest) {
   const unauthorized = requireAdminAuth(request)
@@ -19,10 +22,20 @@ export async function GET(request: NextRequest) {
     const totalRequests = await getEventCount()
 
     // Get recent events for analysis (last 1000 for performance)
-    const events = await getRecentEvents(undefined, 1000)
+    // Quota warnings annotate a request rather than being one, so leave them out
+    const events = (await getRecentEvents(undefined, 1000)).filter(
+      (e) => e.type !== "quota_warning"
+    )
 
     // Calculate metrics from recent events
     const blockedRequests = events.filter((e) => e.status === 429).length
+    const shedRequests = events.filter((e) => e.status === 503).length
+    // Allowed in shadow mode, but enforcement would have rejected them
+    const wouldBlockRequests = events.filter((e) => e.wouldBlock).length
+    // Quota units charged to allowed requests (weighted endpoints cost more than 1)
+    const unitsSpent = events
+      .filter((e) => e.status === 200)
+      .reduce((sum, e) => sum + (e.cost ?? 1), 0)
     const latencies = events
       .filter((e) => e.latencyMs && e.latencyMs > 0)
       .map((e) => e.latencyMs!)
@@ -32,6 +45,32 @@ export async function GET(request: NextRequest) {
         : 0
     const maxLatencyMs = latencies.length > 0 ? Math.max(...latencies) : 0
 
+    // Shedding is active while the global request rate is over the ceiling
+    const [sheddingConfig, globalLoad] = await Promise.all([
+      getLoadSheddingConfig(),
+      getGlobalLoad(),
+    ])
+    const loadShedding = {
+      active:
+        sheddingConfig.globalRpsLimit > 0 &&
+        Math.max(globalLoad.previousRps, globalLoad.currentRps) > sheddingConfig.globalRpsLimit,
+      currentRps: globalLoad.previousRps,
+      globalRpsLimit: sheddingConfig.globalRpsLimit,
+      shedRequests,
+    }
+
+    // Share of configured limits granted to the lowest-priority tier right now
+    const [adaptiveConfig, adaptiveState] = await Promise.all([
+      getAdaptiveLimitsConfig(),
+      getAdaptiveState(),
+    ])
+    const adaptiveLimits = {
+      enabled: adaptiveConfig.targetP95Ms > 0,
+      factor: adaptiveState.factor,
+      p95LatencyMs: adaptiveState.p95LatencyMs,
+      targetP95Ms: adaptiveConfig.targetP95Ms,
+    }
+
     // Generate performance data (last 7 time points)
     const performance = generatePerformanceData(events)
 
@@ -112,9 +151,13 @@ export async function GET(request: NextRequest) {
       metrics: {
         totalRequests,
         blockedRequests,
+        wouldBlockRequests,
+        unitsSpent,
         averageLatencyMs: Math.round(averageLatencyMs),
         maxLatencyMs: Math.round(maxLatencyMs),
       },
+      loadShedding,
+      adaptiveLimits,
       performance,
       latency,
       activeKeys,
@@ -0,0 +1,54 @@
+import { ok } from "@/lib/api/response"
+import {
+  ensureRedisConnected,
+  getCircuitState,
+  recordRedisFailure,
+  recordRedisSuccess,
+  RedisUnavailableError,
+} from "@/lib/redis/client"
+import { getStorage } from "@/lib/storage"
+import { env } from "@/lib/env"
+
+/**
+ * GET /api/health - Report Redis reachability and which limiter mode is active
+ */
+export async function GET() {
+  const storage = getStorage()
+
+  // Single-instance deployments keep everything in process, with no Redis to lose
+  if (storage.kind === "memory") {
+    return ok({
+      status: "ok",
+      storage: storage.kind,
+      mode: "memory",
+    })
+  }
+
+  let redisUp = false
+
+  // Probe Redis unless the breaker is holding it off
+  if (getCircuitState() !== "open") {
+    try {
+      await ensureRedisConnected()
+      await storage.ping()
+      recordRedisSuccess()
+      redisUp = true
+    } catch (err) {
+      // Connection failures are already counted by ensureRedisConnected
+      if (!(err instanceof RedisUnavailableError)) {
+        recordRedisFailure()
+      }
+    }
+  }
+
+  return ok({
+    status: redisUp ? "ok" : "degraded",
+    storage: storage.kind,
+    redis: redisUp ? "up" : "down",
+    redisMode: env.REDIS_MODE,
+    circuit: getCircuitState(),
+    failurePolicy: env.REDIS_FAILURE_POLICY,
+    mode: redisUp ? "redis" : env.REDIS_FAILURE_POLICY,
+    assumedInstanceCount: env.ASSUMED_INSTANCE_COUNT,
+  })
+}
@@ -2,10 +2,22 @@ import { NextRequest } from "next/server"
 import { requireAdminAuth } from "@/lib/api/auth"
 import { error, ok } from "@/lib/api/response"
 import { apiKeyDetailSchema } from "@/lib/api/schemas"
-import { getApiKeyById, updateApiKeyLimits, deleteApiKey } from "@/lib/db/api-keys"
+import {
+  getApiKeyById,
+  getApiKeyTimeZone,
+  updateApiKeyLimits,
+  updateApiKeyBillingAnchor,
+  updateApiKeyShadowMode,
+  updateApiKeyTimeZone,
+  deleteApiKey,
+} from "@/lib/db/api-keys"
+import { resolveEffectiveLimits } from "@/lib/db/overrides"
 import { ensureRedisConnected } from "@/lib/redis/client"
 import { getCurrentUsage } from "@/lib/redis/rate-limiter"
 import { getRecentEvents } from "@/lib/redis/events"
+import { getBillingPeriodEnd, getDayEnd } from "@/lib/redis/keys"
+import { timeZoneSchema } from "@/lib/api/schemas"
+import { formatInTimeZone } from "@/lib/timezone"
 import { z } from "zod"
 
 type RouteParams = {
@@ -30,7 +42,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return error("API key not found", 404)
     }
 
-    const usage = await getCurrentUsage(apiKey.apiKey)
+    const timeZone = getApiKeyTimeZone(apiKey)
+    const now = new Date()
+    const usage = await getCurrentUsage(apiKey.apiKey, apiKey.billingAnchorDay, timeZone)
+    const limits = await resolveEffectiveLimits(apiKey)
     const events = await getRecentEvents(apiKey.apiKey, 50)
 
     // Generate timeline data (last 60 minutes)
@@ -44,13 +59,29 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       apiKey: apiKey.apiKey,
       minuteUsage: usage.minute,
       dailyUsage: usage.day,
+      monthlyUsage: usage.month,
+      monthlyLimit: limits.perMonth > 0 ? limits.perMonth : null,
+      billingPeriodEnd: formatInTimeZone(
+        getBillingPeriodEnd(now, apiKey.billingAnchorDay, timeZone),
+        timeZone
+      ),
+      shadowMode: apiKey.shadowMode,
+      timeZone,
+      dailyResetAt: formatInTimeZone(getDayEnd(now, timeZone), timeZone),
+      // Set while a scheduled override is replacing the key's limits
+      activeOverride: limits.override,
       minuteTimeline,
       dailyTimeline,
-      rateLimit: apiKey.perMinute,
+      rateLimit: limits.perMinute,
       timeWindowSeconds: 60,
       activityLog: events.map((e) => ({
         timestamp: e.timestamp,
-        event: e.status === 429 ? "Blocked" : "Allowed",
+        event:
+          e.type === "quota_warning"
+            ? "Quota Warning"
+            : e.status === 429
+            ? "Blocked"
+            : "Allowed",
         details: `${e.endpoint} - ${e.reason || "OK"}`,
         status: e.status,
       })),
@@ -76,6 +107,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 const updateLimitsSchema = z.object({
   perMinute: z.number().positive(),
   perDay: z.number().positive(),
+  billingAnchorDay: z.number().int().min(1).max(31).optional(),
+  shadowMode: z.boolean().optional(),
+  // null clears the key's own zone so it follows its tier again
+  timeZone: timeZoneSchema.nullable().optional(),
 })
 
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
@@ -94,6 +129,15 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     }
 
     await updateApiKeyLimits(id, parsed.data.perMinute, parsed.data.perDay)
+    if (parsed.data.billingAnchorDay) {
+      await updateApiKeyBillingAnchor(id, parsed.data.billingAnchorDay)
+    }
+    if (parsed.data.shadowMode !== undefined) {
+      await updateApiKeyShadowMode(id, parsed.data.shadowMode)
+    }
+    if (parsed.data.timeZone !== undefined) {
+      await updateApiKeyTimeZone(id, parsed.data.timeZone)
+    }
 
     return ok({ message: "API key limits updated successfully" })
   } catch (err) {
@@ -1,8 +1,23 @@
 import { NextRequest } from "next/server"
 import { requireAdminAuth } from "@/lib/api/auth"
 import { error, ok } from "@/lib/api/response"
-import { settingsSchema, tierSchema } from "@/lib/api/schemas"
+import {
+  adaptiveLimitsSchema,
+  loadSheddingSchema,
+  penaltyBoxSchema,
+  settingsSchema,
+  tierSchema,
+} from "@/lib/api/schemas"
 import { getAllTiers, updateTier, createTier, reloadTiers } from "@/lib/db/api-keys"
+import {
+  getAdaptiveLimitsConfig,
+  getLoadSheddingConfig,
+  getPenaltyBoxConfig,
+  updateAdaptiveLimitsConfig,
+  updateLoadSheddingConfig,
+  updatePenaltyBoxConfig,
+} from "@/lib/db/settings"
+import { getAdaptiveState } from "@/lib/redis/adaptive-limits"
 import { env } from "@/lib/env"
 import { z } from "zod"
 
@@ -17,6 +32,10 @@ export async function GET(request: NextRequest) {
     await reloadTiers()
     
     const tiers = getAllTiers()
+    const loadShedding = await getLoadSheddingConfig()
+    const penaltyBox = await getPenaltyBoxConfig()
+    const adaptiveLimits = await getAdaptiveLimitsConfig()
+    const adaptiveState = await getAdaptiveState()
 
     const payload = {
       defaultRateLimit: env.RATE_DEFAULT_PER_MINUTE / 60, // Convert to per-second
@@ -26,7 +45,20 @@ export async function GET(request: NextRequest) {
         name: t.name,
         rateLimit: t.rateLimit,
         burstLimit: t.burstLimit,
+        algorithm: t.algorithm ?? "fixed-window",
+        maxConcurrency: t.maxConcurrency ?? 0,
+        monthlyQuota: t.monthlyQuota ?? 0,
+        shadowMode: t.shadowMode ?? false,
+        warningThresholds: t.warningThresholds ?? [],
+        maxDelayMs: t.maxDelayMs ?? 0,
+        timeZone: t.timeZone ?? "UTC",
       })),
+      loadShedding,
+      penaltyBox,
+      adaptiveLimits: {
+        ...adaptiveLimits,
+        currentFactor: adaptiveState.factor,
+      },
     }
 
     const parsed = settingsSchema.safeParse(payload)
@@ -50,6 +82,9 @@ const updateSettingsSchema = z.object({
   defaultRateLimit: z.number().positive().optional(),
   defaultBurstLimit: z.number().positive().optional(),
   tiers: z.array(tierSchema).optional(),
+  loadShedding: loadSheddingSchema.partial().optional(),
+  penaltyBox: penaltyBoxSchema.partial().optional(),
+  adaptiveLimits: adaptiveLimitsSchema.partial().optional(),
 })
 
 export async function PATCH(request: NextRequest) {
@@ -74,14 +109,41 @@ export async function PATCH(request: NextRequest) {
             name: tier.name,
             rateLimit: tier.rateLimit,
             burstLimit: tier.burstLimit,
+            algorithm: tier.algorithm,
+            maxConcurrency: tier.maxConcurrency,
+            monthlyQuota: tier.monthlyQuota,
+            shadowMode: tier.shadowMode,
+            warningThresholds: tier.warningThresholds,
+            maxDelayMs: tier.maxDelayMs,
+            timeZone: tier.timeZone,
           })
         } catch {
           // Tier doesn't exist, create it with the provided ID
-          await createTier(tier.name, tier.rateLimit, tier.burstLimit, tier.id)
+          await createTier(tier.name, tier.rateLimit, tier.burstLimit, tier.id, {
+            algorithm: tier.algorithm,
+            maxConcurrency: tier.maxConcurrency,
+            monthlyQuota: tier.monthlyQuota,
+            shadowMode: tier.shadowMode,
+            warningThresholds: tier.warningThresholds,
+            maxDelayMs: tier.maxDelayMs,
+            timeZone: tier.timeZone,
+          })
         }
       }
     }
 
+    if (parsed.data.loadShedding) {
+      await updateLoadSheddingConfig(parsed.data.loadShedding)
+    }
+
+    if (parsed.data.penaltyBox) {
+      await updatePenaltyBoxConfig(parsed.data.penaltyBox)
+    }
+
+    if (parsed.data.adaptiveLimits) {
+      await updateAdaptiveLimitsConfig(parsed.data.adaptiveLimits)
+    }
+
     return ok({ message: "Settings updated successfully" })
   } catch (err) {
     console.error("Error updating settings:", err)
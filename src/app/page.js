@@ -53,9 +53,35 @@ export default function Dashboard() {
     );
   }
 
-  const { metrics, performance, latency, activeKeys, recentEvents, topOffenders } = data;
+  const { metrics, loadShedding, adaptiveLimits, performance, latency, activeKeys, recentEvents, topOffenders } = data;
   return (
     <div className="min-h-screen bg-background pt-24 p-6">
+      {/* Load Shedding Banner */}
+      {loadShedding?.active && (
+        <Card className="mb-6 bg-card/50 backdrop-blur border-amber-500">
+          <CardContent className="py-4">
+            <p className="text-sm font-medium text-amber-500">
+              Load shedding active: {formatNumber(loadShedding.currentRps)} req/s against a ceiling of{' '}
+              {formatNumber(loadShedding.globalRpsLimit)} req/s. Lower-priority tiers are being shed
+              ({formatNumber(loadShedding.shedRequests)} recent requests).
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Adaptive Limits Banner */}
+      {adaptiveLimits?.enabled && adaptiveLimits.factor < 1 && (
+        <Card className="mb-6 bg-card/50 backdrop-blur border-amber-500">
+          <CardContent className="py-4">
+            <p className="text-sm font-medium text-amber-500">
+              Adaptive limits active: p95 latency {formatNumber(adaptiveLimits.p95LatencyMs)}ms against a target of{' '}
+              {formatNumber(adaptiveLimits.targetP95Ms)}ms. Per-minute limits are down to{' '}
+              {Math.round(adaptiveLimits.factor * 100)}% for the lowest-priority tier.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Metrics Cards */}
       <div className="mb-6 grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card className="bg-card/50 backdrop-blur">
@@ -66,6 +92,9 @@ export default function Dashboard() {
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold">{formatNumber(metrics.totalRequests)}</div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {formatNumber(metrics.unitsSpent)} units spent (recent)
+            </p>
           </CardContent>
         </Card>
 
@@ -77,6 +106,9 @@ export default function Dashboard() {
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold">{formatNumber(metrics.blockedRequests)}</div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {formatNumber(metrics.wouldBlockRequests)} would be blocked in shadow mode (recent)
+            </p>
           </CardContent>
         </Card>
 
@@ -88,6 +120,11 @@ export default function Dashboard() {
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold">{metrics.averageLatencyMs.toFixed(1)}ms</div>
+            {adaptiveLimits?.enabled && (
+              <p className="text-xs text-muted-foreground mt-1">
+                p95 {formatNumber(adaptiveLimits.p95LatencyMs)}ms, limits at {Math.round(adaptiveLimits.factor * 100)}%
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -1,7 +1,7 @@
 "use client"
 
 import { useState, useEffect } from 'react'
-import { Plus, Pencil, AlertCircle, Save } from 'lucide-react'
+import { Plus, Pencil, AlertCircle, Save, Trash2, ArrowUp, ArrowDown } from 'lucide-react'
 import {
   Drawer,
   DrawerTrigger,
@@ -23,16 +23,60 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table'
-import { useSettings, useUpdateSettings } from '@/lib/api/hooks'
+import {
+  useSettings,
+  useUpdateSettings,
+  usePolicies,
+  useCreatePolicy,
+  useDeletePolicy,
+} from '@/lib/api/hooks'
 import LoadingSpinner from '@/components/LoadingSpinner'
 
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
+
+const EMPTY_POLICY = {
+  endpoint: '',
+  method: '',
+  perMinute: 60,
+  perDay: '',
+  cost: '',
+}
+
+const ALGORITHM_LABELS = {
+  'fixed-window': 'Fixed window',
+  'sliding-window': 'Sliding window',
+  gcra: 'GCRA',
+}
+
+function parseThresholds(value) {
+  if (Array.isArray(value)) return value
+  return [...new Set(
+    (value || '')
+      .split(',')
+      .map((t) => parseInt(t.trim()))
+      .filter((t) => t > 0 && t < 100)
+  )].sort((a, b) => a - b)
+}
+
 export default function Settings() {
   const { data: settings, isLoading, error } = useSettings()
   const updateSettingsMutation = useUpdateSettings()
+  const { data: policies = [] } = usePolicies()
+  const createPolicyMutation = useCreatePolicy()
+  const deletePolicyMutation = useDeletePolicy()
   
   const [defaultRateLimit, setDefaultRateLimit] = useState('')
   const [defaultBurstLimit, setDefaultBurstLimit] = useState('')
   const [tiers, setTiers] = useState([])
+  const [globalRpsLimit, setGlobalRpsLimit] = useState('')
+  const [tierPriority, setTierPriority] = useState([])
+  const [penaltyBox, setPenaltyBox] = useState({ blockThreshold: '', windowSeconds: '', banSeconds: '' })
+  const [adaptiveLimits, setAdaptiveLimits] = useState({
+    targetP95Ms: '',
+    minFactor: '',
+    decreaseFactor: '',
+    increaseStep: '',
+  })
   const [hasChanges, setHasChanges] = useState(false)
 
   // Initialize state when data loads
@@ -41,12 +85,27 @@ export default function Settings() {
       setDefaultRateLimit(settings.defaultRateLimit?.toString() || '')
       setDefaultBurstLimit(settings.defaultBurstLimit?.toString() || '')
       setTiers(settings.tiers || [])
+      setGlobalRpsLimit(settings.loadShedding?.globalRpsLimit?.toString() || '0')
+      setTierPriority(settings.loadShedding?.tierPriority || [])
+      setPenaltyBox({
+        blockThreshold: settings.penaltyBox?.blockThreshold?.toString() || '0',
+        windowSeconds: settings.penaltyBox?.windowSeconds?.toString() || '300',
+        banSeconds: settings.penaltyBox?.banSeconds?.toString() || '900',
+      })
+      setAdaptiveLimits({
+        targetP95Ms: settings.adaptiveLimits?.targetP95Ms?.toString() || '0',
+        minFactor: settings.adaptiveLimits?.minFactor?.toString() || '0.1',
+        decreaseFactor: settings.adaptiveLimits?.decreaseFactor?.toString() || '0.7',
+        increaseStep: settings.adaptiveLimits?.increaseStep?.toString() || '0.05',
+      })
     }
   }, [settings])
 
   const [drawerOpen, setDrawerOpen] = useState(false)
   const [editingTier, setEditingTier] = useState(null)
   const [addingTier, setAddingTier] = useState(false)
+  const [policyDrawerOpen, setPolicyDrawerOpen] = useState(false)
+  const [newPolicy, setNewPolicy] = useState(EMPTY_POLICY)
 
   const handleSaveAll = async () => {
     try {
@@ -54,6 +113,21 @@ export default function Settings() {
         defaultRateLimit: parseInt(defaultRateLimit),
         defaultBurstLimit: parseInt(defaultBurstLimit),
         tiers: tiers,
+        loadShedding: {
+          globalRpsLimit: parseInt(globalRpsLimit) || 0,
+          tierPriority: rankedTiers.map((t) => t.id),
+        },
+        penaltyBox: {
+          blockThreshold: parseInt(penaltyBox.blockThreshold) || 0,
+          windowSeconds: parseInt(penaltyBox.windowSeconds) || 300,
+          banSeconds: parseInt(penaltyBox.banSeconds) || 900,
+        },
+        adaptiveLimits: {
+          targetP95Ms: parseInt(adaptiveLimits.targetP95Ms) || 0,
+          minFactor: parseFloat(adaptiveLimits.minFactor) || 0.1,
+          decreaseFactor: parseFloat(adaptiveLimits.decreaseFactor) || 0.7,
+          increaseStep: parseFloat(adaptiveLimits.increaseStep) || 0.05,
+        },
       })
       setHasChanges(false)
       alert('Settings saved successfully!')
@@ -63,6 +137,32 @@ export default function Settings() {
     }
   }
 
+  // Tiers in shedding order: configured priority first, then the rest by rate limit
+  const rankedTiers = [
+    ...tierPriority.map((id) => tiers.find((t) => t.id === id)).filter(Boolean),
+    ...tiers
+      .filter((t) => !tierPriority.includes(t.id))
+      .sort((a, b) => b.rateLimit - a.rateLimit),
+  ]
+
+  const handlePenaltyBoxChange = (field, value) => {
+    setPenaltyBox({ ...penaltyBox, [field]: value })
+    setHasChanges(true)
+  }
+
+  const handleAdaptiveLimitsChange = (field, value) => {
+    setAdaptiveLimits({ ...adaptiveLimits, [field]: value })
+    setHasChanges(true)
+  }
+
+  const handleMoveTier = (index, offset) => {
+    const order = rankedTiers.map((t) => t.id)
+    const [moved] = order.splice(index, 1)
+    order.splice(index + offset, 0, moved)
+    setTierPriority(order)
+    setHasChanges(true)
+  }
+
   const handleEditTier = (tierId) => {
     const t = tiers.find((x) => x.id === tierId)
     if (t) {
@@ -78,6 +178,13 @@ export default function Settings() {
       name: '',
       rateLimit: 50,
       burstLimit: 100,
+      algorithm: 'fixed-window',
+      maxConcurrency: 0,
+      monthlyQuota: 0,
+      shadowMode: false,
+      warningThresholds: [],
+      maxDelayMs: 0,
+      timeZone: 'UTC',
     })
     setAddingTier(true)
     setDrawerOpen(true)
@@ -85,11 +192,18 @@ export default function Settings() {
 
   const handleSaveTier = () => {
     if (!editingTier) return
+
+    // Thresholds are edited as free text, e.g. "80, 95"
+    const savedTier = {
+      ...editingTier,
+      warningThresholds: parseThresholds(editingTier.warningThresholds),
+      timeZone: editingTier.timeZone?.trim() || 'UTC',
+    }
     
     if (addingTier) {
-      setTiers((prev) => [...prev, editingTier])
+      setTiers((prev) => [...prev, savedTier])
     } else {
-      setTiers((prev) => prev.map((t) => (t.id === editingTier.id ? editingTier : t)))
+      setTiers((prev) => prev.map((t) => (t.id === savedTier.id ? savedTier : t)))
     }
     
     setHasChanges(true)
@@ -104,6 +218,34 @@ export default function Settings() {
     setHasChanges(true)
   }
 
+  const handleCreatePolicy = async () => {
+    try {
+      await createPolicyMutation.mutateAsync({
+        endpoint: newPolicy.endpoint,
+        method: newPolicy.method || null,
+        perMinute: Number(newPolicy.perMinute),
+        perDay: newPolicy.perDay ? Number(newPolicy.perDay) : null,
+        cost: newPolicy.cost ? Number(newPolicy.cost) : null,
+      })
+      setPolicyDrawerOpen(false)
+      setNewPolicy(EMPTY_POLICY)
+    } catch (error) {
+      console.error('Failed to create policy:', error)
+      alert('Failed to create policy. Please try again.')
+    }
+  }
+
+  const handleDeletePolicy = async (policyId) => {
+    if (!confirm('Are you sure you want to delete this endpoint policy?')) return
+
+    try {
+      await deletePolicyMutation.mutateAsync(policyId)
+    } catch (error) {
+      console.error('Failed to delete policy:', error)
+      alert('Failed to delete policy. Please try again.')
+    }
+  }
+
   // Loading state
   if (isLoading) {
     return (
@@ -227,30 +369,50 @@ export default function Settings() {
                       <TableHead>TIER NAME</TableHead>
                       <TableHead>RATE LIMIT (REQ/S)</TableHead>
                       <TableHead>BURST LIMIT (REQ)</TableHead>
+                      <TableHead>ALGORITHM</TableHead>
+                      <TableHead>MAX IN-FLIGHT</TableHead>
                       <TableHead>PER MINUTE</TableHead>
                       <TableHead>PER DAY</TableHead>
+                      <TableHead>PER MONTH</TableHead>
                       <TableHead className="w-32"></TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {tiers.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={6} className="h-24 text-center">
+                        <TableCell colSpan={9} className="h-24 text-center">
                           No tiers configured. Click &quot;Add New Tier&quot; to create one.
                         </TableCell>
                       </TableRow>
                     ) : (
                       tiers.map((tier) => (
                         <TableRow key={tier.id}>
-                          <TableCell className="font-medium">{tier.name}</TableCell>
+                          <TableCell className="font-medium">
+                            {tier.name}
+                            {tier.shadowMode && (
+                              <span className="ml-2 rounded bg-muted px-1.5 py-0.5 text-xs text-muted-foreground">
+                                Shadow
+                              </span>
+                            )}
+                            {tier.maxDelayMs > 0 && (
+                              <span className="ml-2 rounded bg-muted px-1.5 py-0.5 text-xs text-muted-foreground">
+                                Delay ≤ {tier.maxDelayMs}ms
+                              </span>
+                            )}
+                          </TableCell>
                           <TableCell>{tier.rateLimit}</TableCell>
                           <TableCell>{tier.burstLimit}</TableCell>
+                          <TableCell>{ALGORITHM_LABELS[tier.algorithm] ?? ALGORITHM_LABELS['fixed-window']}</TableCell>
+                          <TableCell>{tier.maxConcurrency ? tier.maxConcurrency : 'Unlimited'}</TableCell>
                           <TableCell className="text-muted-foreground">
                             {tier.rateLimit * 60}
                           </TableCell>
                           <TableCell className="text-muted-foreground">
                             {tier.rateLimit * 60 * 60 * 24}
                           </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {tier.monthlyQuota ? tier.monthlyQuota : 'Unlimited'}
+                          </TableCell>
                           <TableCell>
                             <div className="flex items-center gap-2">
                               <Button
@@ -272,6 +434,278 @@ export default function Settings() {
               </div>
             </CardContent>
           </Card>
+
+          {/* Load Shedding */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Load Shedding</CardTitle>
+              <p className="text-sm text-muted-foreground mt-1">
+                Deployment-wide request ceiling; lower-priority tiers are shed first when it is exceeded
+              </p>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <label htmlFor="globalRpsLimit" className="text-sm font-medium">
+                    Global Ceiling (requests/second)
+                  </label>
+                  <Input
+                    id="globalRpsLimit"
+                    type="number"
+                    min="0"
+                    value={globalRpsLimit}
+                    onChange={(e) => {
+                      setGlobalRpsLimit(e.target.value)
+                      setHasChanges(true)
+                    }}
+                    className="bg-background"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    0 disables load shedding
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <span className="text-sm font-medium">Tier Priority (kept longest first)</span>
+                  <div className="rounded-lg border divide-y">
+                    {rankedTiers.length === 0 ? (
+                      <p className="p-3 text-sm text-muted-foreground">No tiers configured.</p>
+                    ) : (
+                      rankedTiers.map((tier, index) => (
+                        <div key={tier.id} className="flex items-center justify-between px-3 py-2">
+                          <span className="text-sm">
+                            {index + 1}. {tier.name}
+                          </span>
+                          <div className="flex items-center gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleMoveTier(index, -1)}
+                              disabled={index === 0}
+                            >
+                              <ArrowUp className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleMoveTier(index, 1)}
+                              disabled={index === rankedTiers.length - 1}
+                            >
+                              <ArrowDown className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Penalty Box */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Penalty Box</CardTitle>
+              <p className="text-sm text-muted-foreground mt-1">
+                Temporarily ban keys that keep sending requests after being rate limited
+              </p>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="space-y-2">
+                  <label htmlFor="penaltyThreshold" className="text-sm font-medium">
+                    Blocked Requests Allowed
+                  </label>
+                  <Input
+                    id="penaltyThreshold"
+                    type="number"
+                    min="0"
+                    value={penaltyBox.blockThreshold}
+                    onChange={(e) => handlePenaltyBoxChange('blockThreshold', e.target.value)}
+                    className="bg-background"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    0 disables bans
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="penaltyWindow" className="text-sm font-medium">
+                    Window (seconds)
+                  </label>
+                  <Input
+                    id="penaltyWindow"
+                    type="number"
+                    min="1"
+                    value={penaltyBox.windowSeconds}
+                    onChange={(e) => handlePenaltyBoxChange('windowSeconds', e.target.value)}
+                    className="bg-background"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="penaltyBan" className="text-sm font-medium">
+                    Ban Length (seconds)
+                  </label>
+                  <Input
+                    id="penaltyBan"
+                    type="number"
+                    min="1"
+                    value={penaltyBox.banSeconds}
+                    onChange={(e) => handlePenaltyBoxChange('banSeconds', e.target.value)}
+                    className="bg-background"
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Adaptive Limits */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Adaptive Limits</CardTitle>
+              <p className="text-sm text-muted-foreground mt-1">
+                Lower per-minute limits while p95 latency is over target, lowest-priority tiers first.
+                Current factor: {Math.round((settings?.adaptiveLimits?.currentFactor ?? 1) * 100)}%
+              </p>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                <div className="space-y-2">
+                  <label htmlFor="adaptiveTarget" className="text-sm font-medium">
+                    Target p95 Latency (ms)
+                  </label>
+                  <Input
+                    id="adaptiveTarget"
+                    type="number"
+                    min="0"
+                    value={adaptiveLimits.targetP95Ms}
+                    onChange={(e) => handleAdaptiveLimitsChange('targetP95Ms', e.target.value)}
+                    className="bg-background"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    0 disables adaptive limits
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="adaptiveMinFactor" className="text-sm font-medium">
+                    Minimum Factor
+                  </label>
+                  <Input
+                    id="adaptiveMinFactor"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={adaptiveLimits.minFactor}
+                    onChange={(e) => handleAdaptiveLimitsChange('minFactor', e.target.value)}
+                    className="bg-background"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Limits are never cut below this share
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="adaptiveDecrease" className="text-sm font-medium">
+                    Decrease Multiplier
+                  </label>
+                  <Input
+                    id="adaptiveDecrease"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={adaptiveLimits.decreaseFactor}
+                    onChange={(e) => handleAdaptiveLimitsChange('decreaseFactor', e.target.value)}
+                    className="bg-background"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Applied every 10s while p95 is over target
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="adaptiveIncrease" className="text-sm font-medium">
+                    Recovery Step
+                  </label>
+                  <Input
+                    id="adaptiveIncrease"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={adaptiveLimits.increaseStep}
+                    onChange={(e) => handleAdaptiveLimitsChange('increaseStep', e.target.value)}
+                    className="bg-background"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Added back every 10s once p95 recovers
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Endpoint Policies */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+              <div>
+                <CardTitle>Endpoint Policies</CardTitle>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Extra limits for specific endpoints, enforced on top of each key&apos;s tier
+                </p>
+              </div>
+              <Button variant="outline" className="gap-2" onClick={() => setPolicyDrawerOpen(true)}>
+                <Plus className="h-4 w-4" />
+                Add Policy
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-lg border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>METHOD</TableHead>
+                      <TableHead>ENDPOINT</TableHead>
+                      <TableHead>PER MINUTE</TableHead>
+                      <TableHead>PER DAY</TableHead>
+                      <TableHead>COST (UNITS)</TableHead>
+                      <TableHead className="w-32"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {policies.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="h-24 text-center">
+                          No endpoint policies. Keys are limited by their tier only.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      policies.map((policy) => (
+                        <TableRow key={policy.id}>
+                          <TableCell className="font-medium">{policy.method ?? 'ANY'}</TableCell>
+                          <TableCell className="font-mono text-sm">{policy.endpoint}</TableCell>
+                          <TableCell>{policy.perMinute}</TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {policy.perDay ?? '—'}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {policy.cost ?? 'Route default'}
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="gap-2"
+                              onClick={() => handleDeletePolicy(policy.id)}
+                              disabled={deletePolicyMutation.isPending}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                              Delete
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
         </div>
 
         {/* Edit/Add Tier Drawer */}
@@ -329,6 +763,130 @@ export default function Settings() {
                   Maximum number of requests allowed in a burst
                 </p>
               </div>
+              <div>
+                <label className="text-sm font-medium">Window Algorithm</label>
+                <select
+                  className="mt-2 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                  value={editingTier?.algorithm ?? 'fixed-window'}
+                  onChange={(e) =>
+                    setEditingTier((prev) => ({ ...prev, algorithm: e.target.value }))
+                  }
+                >
+                  {Object.entries(ALGORITHM_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Sliding window smooths traffic across minute boundaries; GCRA spaces requests evenly with exact retry hints
+                </p>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Max In-Flight Requests</label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={editingTier?.maxConcurrency ?? 0}
+                  onChange={(e) =>
+                    setEditingTier((prev) => ({ ...prev, maxConcurrency: Number(e.target.value) }))
+                  }
+                  className="mt-2"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Concurrent requests allowed per key (0 = unlimited)
+                </p>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Monthly Quota (requests)</label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={editingTier?.monthlyQuota ?? 0}
+                  onChange={(e) =>
+                    setEditingTier((prev) => ({ ...prev, monthlyQuota: Number(e.target.value) }))
+                  }
+                  className="mt-2"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Requests per billing period, resetting on each key&apos;s anchor day (0 = unlimited)
+                </p>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Time Zone</label>
+                <Input
+                  placeholder="UTC"
+                  value={editingTier?.timeZone ?? 'UTC'}
+                  onChange={(e) =>
+                    setEditingTier((prev) => ({ ...prev, timeZone: e.target.value }))
+                  }
+                  className="mt-2"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  IANA zone (e.g. America/New_York) whose midnight resets daily and monthly quotas; keys can override it
+                </p>
+              </div>
+              <div>
+                <label className="text-sm font-medium">When Over Limit</label>
+                <select
+                  className="mt-2 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                  value={editingTier?.maxDelayMs > 0 ? 'delay' : 'reject'}
+                  onChange={(e) =>
+                    setEditingTier((prev) => ({
+                      ...prev,
+                      maxDelayMs: e.target.value === 'delay' ? 500 : 0,
+                    }))
+                  }
+                >
+                  <option value="reject">Reject with 429</option>
+                  <option value="delay">Delay until a slot frees up</option>
+                </select>
+                {editingTier?.maxDelayMs > 0 && (
+                  <Input
+                    type="number"
+                    min="1"
+                    value={editingTier.maxDelayMs}
+                    onChange={(e) =>
+                      setEditingTier((prev) => ({ ...prev, maxDelayMs: Number(e.target.value) }))
+                    }
+                    className="mt-2"
+                  />
+                )}
+                <p className="text-xs text-muted-foreground mt-1">
+                  In delay mode, requests wait up to this many milliseconds for their slot before being rejected
+                </p>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Warning Thresholds (%)</label>
+                <Input
+                  placeholder="80, 95"
+                  value={
+                    Array.isArray(editingTier?.warningThresholds)
+                      ? editingTier.warningThresholds.join(', ')
+                      : editingTier?.warningThresholds ?? ''
+                  }
+                  onChange={(e) =>
+                    setEditingTier((prev) => ({ ...prev, warningThresholds: e.target.value }))
+                  }
+                  className="mt-2"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Percentages of the minute, day or month quota that add a warning header and log a quota warning
+                </p>
+              </div>
+              <div>
+                <label className="flex items-center gap-2 text-sm font-medium">
+                  <input
+                    type="checkbox"
+                    checked={editingTier?.shadowMode ?? false}
+                    onChange={(e) =>
+                      setEditingTier((prev) => ({ ...prev, shadowMode: e.target.checked }))
+                    }
+                  />
+                  Shadow mode
+                </label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Evaluate these limits without blocking; requests that would be rejected are logged and counted on the dashboard
+                </p>
+              </div>
             </div>
 
             <DrawerFooter>
@@ -343,6 +901,93 @@ export default function Settings() {
             </DrawerFooter>
           </DrawerContent>
         </Drawer>
+
+        {/* Add Endpoint Policy Drawer */}
+        <Drawer open={policyDrawerOpen} onOpenChange={setPolicyDrawerOpen}>
+          <DrawerContent side="right">
+            <DrawerHeader>
+              <DrawerTitle>Add Endpoint Policy</DrawerTitle>
+              <DrawerDescription>
+                Limit requests to an endpoint per API key, in addition to the key&apos;s tier limits.
+              </DrawerDescription>
+            </DrawerHeader>
+
+            <div className="space-y-4 p-4">
+              <div>
+                <label className="text-sm font-medium">Endpoint</label>
+                <Input
+                  value={newPolicy.endpoint}
+                  onChange={(e) => setNewPolicy((prev) => ({ ...prev, endpoint: e.target.value }))}
+                  placeholder="e.g., /api/data or /api/reports/*"
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Method</label>
+                <select
+                  className="mt-2 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                  value={newPolicy.method}
+                  onChange={(e) => setNewPolicy((prev) => ({ ...prev, method: e.target.value }))}
+                >
+                  <option value="">Any method</option>
+                  {HTTP_METHODS.map((method) => (
+                    <option key={method} value={method}>{method}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Requests per Minute</label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={newPolicy.perMinute}
+                  onChange={(e) => setNewPolicy((prev) => ({ ...prev, perMinute: e.target.value }))}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Requests per Day</label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={newPolicy.perDay}
+                  onChange={(e) => setNewPolicy((prev) => ({ ...prev, perDay: e.target.value }))}
+                  placeholder="No daily limit"
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Cost per Request (units)</label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={newPolicy.cost}
+                  onChange={(e) => setNewPolicy((prev) => ({ ...prev, cost: e.target.value }))}
+                  placeholder="Route default"
+                  className="mt-2"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Units charged against the key&apos;s quota for each matching request
+                </p>
+              </div>
+            </div>
+
+            <DrawerFooter>
+              <div className="flex gap-2 w-full">
+                <DrawerClose asChild>
+                  <Button variant="outline" className="flex-1">Cancel</Button>
+                </DrawerClose>
+                <Button
+                  onClick={handleCreatePolicy}
+                  className="flex-1"
+                  disabled={!newPolicy.endpoint || createPolicyMutation.isPending}
+                >
+                  {createPolicyMutation.isPending ? 'Adding...' : 'Add Policy'}
+                </Button>
+              </div>
+            </DrawerFooter>
+          </DrawerContent>
+        </Drawer>
       </div>
     </div>
   )
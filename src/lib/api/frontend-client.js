@@ -81,6 +81,16 @@ export const api = {
     body: JSON.stringify(settings),
   }),
   
+  // Endpoint policies
+  getPolicies: () => apiClient('/api/admin/policies'),
+  createPolicy: (policy) => apiClient('/api/admin/policies', {
+    method: 'POST',
+    body: JSON.stringify(policy),
+  }),
+  deletePolicy: (id) => apiClient(`/api/admin/policies/${id}`, {
+    method: 'DELETE',
+  }),
+
   // Test rate-limited endpoint
   testRateLimit: (apiKey) => apiClient('/api/data', {
     requiresAuth: false,
@@ -104,6 +104,44 @@ export function useUpdateSettings() {
   });
 }
 
+/**
+ * Endpoint policies hook
+ */
+export function usePolicies() {
+  return useQuery({
+    queryKey: ['policies'],
+    queryFn: api.getPolicies,
+  });
+}
+
+/**
+ * Create endpoint policy mutation
+ */
+export function useCreatePolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: api.createPolicy,
+    onSuccess: () => {
+      queryClient.invalidateQueries(['policies']);
+    },
+  });
+}
+
+/**
+ * Delete endpoint policy mutation
+ */
+export function useDeletePolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: api.deletePolicy,
+    onSuccess: () => {
+      queryClient.invalidateQueries(['policies']);
+    },
+  });
+}
+
 /**
  * Individual metric hooks (optional - dashboard already provides all data)
  */
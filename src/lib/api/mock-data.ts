@@ -2,6 +2,8 @@ import {
   DashboardPayload,
   ActiveKey,
   DashboardMetrics,
+  LoadSheddingStatus,
+  AdaptiveLimitsStatus,
   LatencyPoint,
   PerformancePoint,
   RecentEvent,
@@ -15,10 +17,26 @@ import {
 const metrics: DashboardMetrics = {
   totalRequests: 12345,
   blockedRequests: 678,
+  wouldBlockRequests: 42,
+  unitsSpent: 18240,
   averageLatencyMs: 23,
   maxLatencyMs: 150,
 }
 
+const loadShedding: LoadSheddingStatus = {
+  active: false,
+  currentRps: 126,
+  globalRpsLimit: 500,
+  shedRequests: 0,
+}
+
+const adaptiveLimits: AdaptiveLimitsStatus = {
+  enabled: true,
+  factor: 1,
+  p95LatencyMs: 48,
+  targetP95Ms: 250,
+}
+
 const performance: PerformancePoint[] = [
   { time: "10:00", rps: 120 },
   { time: "10:05", rps: 118 },
@@ -145,6 +163,13 @@ const apiKeyDetails: Record<string, ApiKeyDetail> = {
     apiKey: "sk_test_a1b2c3d4e5f6g7h8",
     minuteUsage: 120,
     dailyUsage: 1500,
+    monthlyUsage: 32000,
+    monthlyLimit: 1000000,
+    shadowMode: false,
+    timeZone: "UTC",
+    dailyResetAt: "2025-10-19T00:00:00Z",
+    activeOverride: null,
+    billingPeriodEnd: "2025-11-01T00:00:00.000Z",
     minuteTimeline,
     dailyTimeline,
     rateLimit: 100,
@@ -176,6 +201,13 @@ const apiKeyDetails: Record<string, ApiKeyDetail> = {
     apiKey: "sk_test_c3d4e5f6g7h8i9j0",
     minuteUsage: 80,
     dailyUsage: 900,
+    monthlyUsage: 18500,
+    monthlyLimit: null,
+    shadowMode: false,
+    timeZone: "UTC",
+    dailyResetAt: "2025-10-19T00:00:00Z",
+    activeOverride: null,
+    billingPeriodEnd: "2025-11-01T00:00:00.000Z",
     minuteTimeline,
     dailyTimeline,
     rateLimit: 50,
@@ -207,6 +239,13 @@ const apiKeyDetails: Record<string, ApiKeyDetail> = {
     apiKey: "sk_test_e5f6g7h8i9j0k1l2",
     minuteUsage: 160,
     dailyUsage: 2100,
+    monthlyUsage: 47250,
+    monthlyLimit: 1000000,
+    shadowMode: false,
+    timeZone: "UTC",
+    dailyResetAt: "2025-10-19T00:00:00Z",
+    activeOverride: null,
+    billingPeriodEnd: "2025-11-15T00:00:00.000Z",
     minuteTimeline,
     dailyTimeline,
     rateLimit: 200,
@@ -238,15 +277,33 @@ const settings: SettingsPayload = {
   defaultRateLimit: 100,
   defaultBurstLimit: 200,
   tiers: [
-    { id: "tier-1", name: "Basic", rateLimit: 50, burstLimit: 100 },
-    { id: "tier-2", name: "Standard", rateLimit: 100, burstLimit: 200 },
-    { id: "tier-3", name: "Premium", rateLimit: 200, burstLimit: 400 },
+    { id: "tier-1", name: "Basic", rateLimit: 50, burstLimit: 100, algorithm: "fixed-window", maxConcurrency: 0, monthlyQuota: 0, shadowMode: false, warningThresholds: [], maxDelayMs: 0, timeZone: "UTC" },
+    { id: "tier-2", name: "Standard", rateLimit: 100, burstLimit: 200, algorithm: "fixed-window", maxConcurrency: 0, monthlyQuota: 0, shadowMode: false, warningThresholds: [], maxDelayMs: 0, timeZone: "UTC" },
+    { id: "tier-3", name: "Premium", rateLimit: 200, burstLimit: 400, algorithm: "sliding-window", maxConcurrency: 10, monthlyQuota: 1000000, shadowMode: false, warningThresholds: [80, 95], maxDelayMs: 500, timeZone: "America/New_York" },
   ],
+  loadShedding: {
+    globalRpsLimit: 500,
+    tierPriority: ["tier-3", "tier-2", "tier-1"],
+  },
+  penaltyBox: {
+    blockThreshold: 500,
+    windowSeconds: 300,
+    banSeconds: 900,
+  },
+  adaptiveLimits: {
+    targetP95Ms: 250,
+    minFactor: 0.1,
+    decreaseFactor: 0.7,
+    increaseStep: 0.05,
+    currentFactor: 1,
+  },
 }
 
 export function getMockDashboard(): DashboardPayload {
   return {
     metrics,
+    loadShedding,
+    adaptiveLimits,
     performance,
     latency,
     activeKeys,
@@ -1,8 +1,13 @@
 import { z } from "zod"
+import { isValidTimeZone } from "@/lib/timezone"
+
+export const timeZoneSchema = z.string().refine(isValidTimeZone, "Unknown IANA time zone")
 
 export const dashboardMetricsSchema = z.object({
   totalRequests: z.number().nonnegative(),
   blockedRequests: z.number().nonnegative(),
+  wouldBlockRequests: z.number().nonnegative(),
+  unitsSpent: z.number().nonnegative(),
   averageLatencyMs: z.number().nonnegative(),
   maxLatencyMs: z.number().nonnegative(),
 })
@@ -34,8 +39,24 @@ export const topOffenderSchema = z.object({
   blockedRequests: z.number().nonnegative(),
 })
 
+export const loadSheddingStatusSchema = z.object({
+  active: z.boolean(),
+  currentRps: z.number().nonnegative(),
+  globalRpsLimit: z.number().nonnegative(),
+  shedRequests: z.number().nonnegative(),
+})
+
+export const adaptiveLimitsStatusSchema = z.object({
+  enabled: z.boolean(),
+  factor: z.number().min(0).max(1),
+  p95LatencyMs: z.number().nonnegative(),
+  targetP95Ms: z.number().nonnegative(),
+})
+
 export const dashboardPayloadSchema = z.object({
   metrics: dashboardMetricsSchema,
+  loadShedding: loadSheddingStatusSchema,
+  adaptiveLimits: adaptiveLimitsStatusSchema,
   performance: z.array(performancePointSchema),
   latency: z.array(latencyPointSchema),
   activeKeys: z.array(activeKeySchema),
@@ -76,12 +97,32 @@ export const apiKeyActivityLogItemSchema = z.object({
   status: z.number().int(),
 })
 
+export const limitOverrideSchema = z.object({
+  id: z.string(),
+  targetType: z.enum(["key", "tier"]),
+  targetId: z.string().min(1),
+  perMinute: z.number().int().positive().nullable(),
+  perDay: z.number().int().positive().nullable(),
+  perMonth: z.number().int().nonnegative().nullable(),
+  startsAt: z.string(),
+  endsAt: z.string(),
+  reason: z.string().nullable(),
+  createdAt: z.string(),
+})
+
 export const apiKeyDetailSchema = z.object({
   id: z.string(),
   name: z.string(),
   apiKey: z.string(),
   minuteUsage: z.number().nonnegative(),
   dailyUsage: z.number().nonnegative(),
+  monthlyUsage: z.number().nonnegative(),
+  monthlyLimit: z.number().nonnegative().nullable(),
+  billingPeriodEnd: z.string(),
+  shadowMode: z.boolean(),
+  timeZone: z.string(),
+  dailyResetAt: z.string(),
+  activeOverride: limitOverrideSchema.nullable(),
   minuteTimeline: z.array(apiKeyTimelinePointSchema),
   dailyTimeline: z.array(apiKeyTimelinePointSchema),
   rateLimit: z.number().nonnegative(),
@@ -94,12 +135,92 @@ export const tierSchema = z.object({
   name: z.string(),
   rateLimit: z.number().nonnegative(),
   burstLimit: z.number().nonnegative(),
+  algorithm: z.enum(["fixed-window", "sliding-window", "gcra"]).default("fixed-window"),
+  maxConcurrency: z.number().int().nonnegative().default(0),
+  monthlyQuota: z.number().int().nonnegative().default(0),
+  shadowMode: z.boolean().default(false),
+  warningThresholds: z.array(z.number().int().min(1).max(99)).default([]),
+  maxDelayMs: z.number().int().nonnegative().default(0),
+  timeZone: timeZoneSchema.default("UTC"),
+})
+
+export const endpointPolicySchema = z.object({
+  id: z.string(),
+  endpoint: z.string().min(1),
+  method: z.string().nullable(),
+  perMinute: z.number().positive(),
+  perDay: z.number().positive().nullable(),
+  cost: z.number().int().positive().nullable(),
+})
+
+// A limit the root middleware applies to matching paths at the edge
+export const edgeRuleSchema = z.object({
+  pattern: z.string().min(1), // exact path, or a prefix ending in "*"
+  method: z.string().toUpperCase().nullable().default(null),
+  perMinute: z.number().positive(),
+  perDay: z.number().positive().nullable().default(null),
+  // What requests are counted by; x-api-key is not verified at the edge, so
+  // "api-key" counts can be dodged by sending a different value each time
+  by: z.enum(["ip", "api-key"]).default("ip"),
+})
+
+export const organizationUsageSchema = z.object({
+  minute: z.number().nonnegative(),
+  day: z.number().nonnegative(),
+  month: z.number().nonnegative(),
+})
+
+export const organizationSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  perMinute: z.number().positive(),
+  perDay: z.number().positive(),
+  perMonth: z.number().int().nonnegative(),
+  billingAnchorDay: z.number().int().min(1).max(31),
+  createdAt: z.string(),
+  usage: organizationUsageSchema,
+})
+
+export const organizationDetailSchema = organizationSchema.extend({
+  keyIds: z.array(z.string()),
+})
+
+export const loadSheddingSchema = z.object({
+  globalRpsLimit: z.number().int().nonnegative(),
+  tierPriority: z.array(z.string()),
+})
+
+export const penaltyBoxSchema = z.object({
+  blockThreshold: z.number().int().nonnegative(),
+  windowSeconds: z.number().int().positive(),
+  banSeconds: z.number().int().positive(),
+})
+
+export const adaptiveLimitsSchema = z.object({
+  targetP95Ms: z.number().int().nonnegative(),
+  minFactor: z.number().gt(0).max(1),
+  decreaseFactor: z.number().gt(0).lt(1),
+  increaseStep: z.number().gt(0).max(1),
+})
+
+export const banSchema = z.object({
+  apiKeyId: z.string(),
+  maskedKey: z.string(),
+  strikes: z.number().int().nonnegative(),
+  bannedAt: z.string(),
+  expiresAt: z.string(),
 })
 
 export const settingsSchema = z.object({
   defaultRateLimit: z.number().nonnegative(),
   defaultBurstLimit: z.number().nonnegative(),
   tiers: z.array(tierSchema),
+  loadShedding: loadSheddingSchema,
+  penaltyBox: penaltyBoxSchema,
+  // Current factor is read-only; the controller moves it
+  adaptiveLimits: adaptiveLimitsSchema.extend({
+    currentFactor: z.number().min(0).max(1),
+  }),
 })
 
 export type DashboardMetrics = z.infer<typeof dashboardMetricsSchema>
@@ -108,11 +229,23 @@ export type LatencyPoint = z.infer<typeof latencyPointSchema>
 export type ActiveKey = z.infer<typeof activeKeySchema>
 export type RecentEvent = z.infer<typeof recentEventSchema>
 export type TopOffender = z.infer<typeof topOffenderSchema>
+export type LoadSheddingStatus = z.infer<typeof loadSheddingStatusSchema>
+export type AdaptiveLimitsStatus = z.infer<typeof adaptiveLimitsStatusSchema>
 export type DashboardPayload = z.infer<typeof dashboardPayloadSchema>
 export type ApiKeySummary = z.infer<typeof apiKeySummarySchema>
 export type ApiKeyList = z.infer<typeof apiKeyListSchema>
 export type ApiKeyTimelinePoint = z.infer<typeof apiKeyTimelinePointSchema>
 export type ApiKeyActivityLogItem = z.infer<typeof apiKeyActivityLogItemSchema>
+export type LimitOverrideConfig = z.infer<typeof limitOverrideSchema>
 export type ApiKeyDetail = z.infer<typeof apiKeyDetailSchema>
 export type TierConfig = z.infer<typeof tierSchema>
+export type EndpointPolicyConfig = z.infer<typeof endpointPolicySchema>
+export type EdgeRule = z.infer<typeof edgeRuleSchema>
+export type OrganizationUsage = z.infer<typeof organizationUsageSchema>
+export type OrganizationSummary = z.infer<typeof organizationSchema>
+export type OrganizationDetail = z.infer<typeof organizationDetailSchema>
+export type LoadSheddingSettings = z.infer<typeof loadSheddingSchema>
+export type PenaltyBoxSettings = z.infer<typeof penaltyBoxSchema>
+export type AdaptiveLimitsSettings = z.infer<typeof adaptiveLimitsSchema>
+export type BanSummary = z.infer<typeof banSchema>
 export type SettingsPayload = z.infer<typeof settingsSchema>
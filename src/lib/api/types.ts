@@ -1,6 +1,8 @@
 export type DashboardMetrics = {
   totalRequests: number
   blockedRequests: number
+  wouldBlockRequests: number
+  unitsSpent: number
   averageLatencyMs: number
   maxLatencyMs: number
 }
@@ -34,8 +36,24 @@ export type TopOffender = {
   blockedRequests: number
 }
 
+export type LoadSheddingStatus = {
+  active: boolean
+  currentRps: number
+  globalRpsLimit: number
+  shedRequests: number
+}
+
+export type AdaptiveLimitsStatus = {
+  enabled: boolean
+  factor: number
+  p95LatencyMs: number
+  targetP95Ms: number
+}
+
 export type DashboardPayload = {
   metrics: DashboardMetrics
+  loadShedding: LoadSheddingStatus
+  adaptiveLimits: AdaptiveLimitsStatus
   performance: PerformancePoint[]
   latency: LatencyPoint[]
   activeKeys: ActiveKeyUsage[]
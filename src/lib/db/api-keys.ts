@@ -6,7 +6,8 @@ import {
   invalidateMetadata,
 } from "@/lib/redis/metadata"
 import { getLastSeen } from "@/lib/redis/metadata"
-import { getCurrentUsage } from "@/lib/redis/rate-limiter"
+import { getCurrentUsage, type RateLimitAlgorithm } from "@/lib/redis/rate-limiter"
+import { DEFAULT_TIME_ZONE } from "@/lib/timezone"
 import {
   storeApiKey,
   getStoredApiKey,
@@ -37,6 +38,11 @@ export type ApiKey = {
   tier: string
   perMinute: number
   perDay: number
+  perMonth: number // billing-period quota, 0 = unlimited
+  billingAnchorDay: number // day of month the billing period starts on
+  organizationId: string | null // shares the organization's aggregate limits
+  shadowMode: boolean // evaluate limits but never block
+  timeZone: string | null // IANA zone for daily and billing-period resets, null = the tier's
   disabled: boolean
   createdAt: string
 }
@@ -46,6 +52,13 @@ export type Tier = {
   name: string
   rateLimit: number // requests per second
   burstLimit: number // max burst
+  algorithm?: RateLimitAlgorithm // minute window counting, defaults to fixed-window
+  maxConcurrency?: number // max in-flight requests per key, 0 = unlimited
+  monthlyQuota?: number // requests per billing period, 0 = unlimited
+  shadowMode?: boolean // evaluate limits for every key on the tier but never block
+  warningThresholds?: number[] // percentages of a quota that trigger a warning, e.g. [80, 95]
+  maxDelayMs?: number // delay mode: wait up to this long for a slot instead of rejecting, 0 = reject
+  timeZone?: string // IANA zone for daily and billing-period resets, defaults to UTC
 }
 
 // In-memory stores (replace with actual DB in production)
@@ -165,7 +178,8 @@ async function verifyApiKey(apiKey: string, hash: string): Promise<boolean> {
 export async function createApiKey(
   name: string,
   tier: string,
-  ownerEmail: string = "admin@example.com"
+  ownerEmail: string = "admin@example.com",
+  billingAnchorDay: number = 1
 ): Promise<{ id: string; apiKey: string }> {
   const tierConfig = tiersStore.get(tier)
   if (!tierConfig) {
@@ -179,6 +193,7 @@ export async function createApiKey(
   // Convert per-second rate to per-minute and per-day
   const perMinute = tierConfig.rateLimit * 60
   const perDay = tierConfig.rateLimit * 60 * 60 * 24
+  const perMonth = tierConfig.monthlyQuota ?? 0
 
   const newKey: ApiKey = {
     id,
@@ -189,6 +204,11 @@ export async function createApiKey(
     tier,
     perMinute,
     perDay,
+    perMonth,
+    billingAnchorDay,
+    organizationId: null,
+    shadowMode: false,
+    timeZone: null,
     disabled: false,
     createdAt: new Date().toISOString(),
   }
@@ -222,6 +242,7 @@ function updateApiKeyWithCurrentTierLimits(key: ApiKey): ApiKey {
     // Update with current tier limits
     key.perMinute = currentTier.rateLimit * 60
     key.perDay = currentTier.rateLimit * 60 * 60 * 24
+    key.perMonth = currentTier.monthlyQuota ?? 0
   }
   return key
 }
@@ -323,6 +344,17 @@ export async function findApiKeyByValue(
   return null
 }
 
+/**
+ * Find an API key in the in-memory store only, without touching Redis
+ * Used by the degraded limiter while Redis is unavailable
+ */
+export function findLocalApiKeyByValue(apiKeyValue: string): ApiKey | null {
+  const memoryKeys = Array.from(apiKeysStore.values())
+  const key = memoryKeys.find((k) => k.apiKey === apiKeyValue)
+
+  return key ? updateApiKeyWithCurrentTierLimits(key) : null
+}
+
 /**
  * Get API key by ID
  */
@@ -361,7 +393,7 @@ export async function listApiKeys(): Promise<
 
   const keysWithUsage = await Promise.all(
     keys.map(async (key) => {
-      const usage = await getCurrentUsage(key.apiKey)
+      const usage = await getCurrentUsage(key.apiKey, key.billingAnchorDay, getApiKeyTimeZone(key))
       const lastSeen = await getLastSeen(key.apiKey)
 
       // Get current tier configuration (in case tier limits were updated)
@@ -423,6 +455,97 @@ export async function updateApiKeyLimits(
   })
 }
 
+/**
+ * Move the day of month an API key's billing period starts on
+ */
+export async function updateApiKeyBillingAnchor(
+  id: string,
+  billingAnchorDay: number
+): Promise<void> {
+  const key = apiKeysStore.get(id)
+  if (!key) {
+    throw new Error(`API key ${id} not found`)
+  }
+
+  key.billingAnchorDay = billingAnchorDay
+
+  // Update in Redis
+  await updateStoredApiKey(id, { billingAnchorDay })
+}
+
+/**
+ * Time zone the key's daily and billing-period windows reset in
+ */
+export function getApiKeyTimeZone(key: ApiKey): string {
+  return key.timeZone ?? tiersStore.get(key.tier)?.timeZone ?? DEFAULT_TIME_ZONE
+}
+
+/**
+ * Set (or clear with null) the time zone an API key's windows reset in
+ */
+export async function updateApiKeyTimeZone(
+  id: string,
+  timeZone: string | null
+): Promise<void> {
+  const key = apiKeysStore.get(id)
+  if (!key) {
+    throw new Error(`API key ${id} not found`)
+  }
+
+  key.timeZone = timeZone
+
+  // Update in Redis
+  await updateStoredApiKey(id, { timeZone })
+}
+
+/**
+ * Toggle shadow (dry-run) enforcement for an API key
+ */
+export async function updateApiKeyShadowMode(
+  id: string,
+  shadowMode: boolean
+): Promise<void> {
+  const key = apiKeysStore.get(id)
+  if (!key) {
+    throw new Error(`API key ${id} not found`)
+  }
+
+  key.shadowMode = shadowMode
+
+  // Update in Redis
+  await updateStoredApiKey(id, { shadowMode })
+}
+
+/**
+ * Assign an API key to an organization (or remove it with null)
+ * Returns the organization the key belonged to before
+ */
+export async function setApiKeyOrganization(
+  id: string,
+  organizationId: string | null
+): Promise<string | null> {
+  let key = apiKeysStore.get(id)
+
+  // If not in memory, try loading from Redis
+  if (!key) {
+    const storedKey = await getStoredApiKey(id)
+    if (!storedKey) {
+      throw new Error(`API key ${id} not found`)
+    }
+    key = storedKey
+    apiKeysStore.set(key.id, key)
+    apiKeysByHash.set(key.apiKeyHash, key)
+  }
+
+  const previousOrganizationId = key.organizationId
+  key.organizationId = organizationId
+
+  // Update in Redis
+  await updateStoredApiKey(id, { organizationId })
+
+  return previousOrganizationId
+}
+
 /**
  * Disable an API key
  */
@@ -516,10 +639,17 @@ export async function updateTier(id: string, updates: Partial<Tier>): Promise<vo
   await storeTier(tier)
 }
 
-export async function createTier(name: string, rateLimit: number, burstLimit: number, customId?: string): Promise<Tier> {
+export async function createTier(
+  name: string,
+  rateLimit: number,
+  burstLimit: number,
+  customId?: string,
+  settings: Omit<Partial<Tier>, "id" | "name" | "rateLimit" | "burstLimit"> = {}
+): Promise<Tier> {
   const id = customId || name.toLowerCase().replace(/\s+/g, "-")
 
   const tier: Tier = {
+    ...settings,
     id,
     name,
     rateLimit,
@@ -0,0 +1,148 @@
+import { nanoid } from "nanoid"
+import { setApiKeyOrganization } from "@/lib/db/api-keys"
+import { getStoredApiKey } from "@/lib/redis/api-key-storage"
+import { getCurrentUsage } from "@/lib/redis/rate-limiter"
+import { getOrganizationScope } from "@/lib/redis/keys"
+import {
+  storeOrganization,
+  getStoredOrganization,
+  getAllStoredOrganizations,
+  addStoredOrganizationKey,
+  removeStoredOrganizationKey,
+  getStoredOrganizationKeys,
+} from "@/lib/redis/organization-storage"
+
+/**
+ * Organizations own many API keys and share one set of aggregate limits
+ * across them, on top of each key's own limits
+ */
+
+export type Organization = {
+  id: string
+  name: string
+  perMinute: number
+  perDay: number
+  perMonth: number // billing-period quota, 0 = unlimited
+  billingAnchorDay: number
+  createdAt: string
+}
+
+export type OrganizationUsage = {
+  minute: number
+  day: number
+  month: number
+}
+
+// Organizations are read on every request from a member key, so keep a
+// short-lived copy in memory; changes made on another instance show up once it expires
+const ORGANIZATION_CACHE_TTL_MS = 30 * 1000
+
+const organizationsStore = new Map<string, { organization: Organization; loadedAt: number }>()
+
+function cacheOrganization(organization: Organization): void {
+  organizationsStore.set(organization.id, { organization, loadedAt: Date.now() })
+}
+
+export async function getOrganization(id: string): Promise<Organization | null> {
+  const cached = organizationsStore.get(id)
+  if (cached && Date.now() - cached.loadedAt <= ORGANIZATION_CACHE_TTL_MS) {
+    return cached.organization
+  }
+
+  const stored = await getStoredOrganization(id)
+  if (stored) {
+    cacheOrganization(stored)
+  } else {
+    organizationsStore.delete(id)
+  }
+  return stored
+}
+
+export async function listOrganizations(): Promise<Organization[]> {
+  const storedOrganizations = await getAllStoredOrganizations()
+  for (const organization of storedOrganizations) {
+    cacheOrganization(organization)
+  }
+  return storedOrganizations
+}
+
+export async function createOrganization(
+  input: Omit<Organization, "id" | "createdAt">
+): Promise<Organization> {
+  const organization: Organization = {
+    ...input,
+    id: nanoid(),
+    createdAt: new Date().toISOString(),
+  }
+
+  cacheOrganization(organization)
+
+  // Persist to Redis
+  console.log(`💾 Storing organization: ${organization.name} (${organization.perMinute}/min, ${organization.perDay}/day)`)
+  await storeOrganization(organization)
+
+  return organization
+}
+
+export async function updateOrganization(
+  id: string,
+  updates: Partial<Omit<Organization, "id" | "createdAt">>
+): Promise<Organization> {
+  const organization = await getOrganization(id)
+  if (!organization) {
+    throw new Error(`Organization ${id} not found`)
+  }
+
+  Object.assign(organization, updates)
+  await storeOrganization(organization)
+  cacheOrganization(organization)
+
+  return organization
+}
+
+/**
+ * Move an API key into an organization so it draws on the shared quota
+ */
+export async function attachApiKey(id: string, apiKeyId: string): Promise<void> {
+  const organization = await getOrganization(id)
+  if (!organization) {
+    throw new Error(`Organization ${id} not found`)
+  }
+
+  const previousOrganizationId = await setApiKeyOrganization(apiKeyId, id)
+  if (previousOrganizationId && previousOrganizationId !== id) {
+    await removeStoredOrganizationKey(previousOrganizationId, apiKeyId)
+  }
+  await addStoredOrganizationKey(id, apiKeyId)
+}
+
+/**
+ * Take an API key out of the organization
+ * Returns false, changing nothing, when the key does not belong to it
+ */
+export async function detachApiKey(id: string, apiKeyId: string): Promise<boolean> {
+  const apiKey = await getStoredApiKey(apiKeyId)
+  if (!apiKey || apiKey.organizationId !== id) {
+    return false
+  }
+
+  await setApiKeyOrganization(apiKeyId, null)
+  await removeStoredOrganizationKey(id, apiKeyId)
+  return true
+}
+
+export async function getOrganizationKeyIds(id: string): Promise<string[]> {
+  return await getStoredOrganizationKeys(id)
+}
+
+/**
+ * Current aggregate usage across all of the organization's keys
+ */
+export async function getOrganizationUsage(
+  organization: Organization
+): Promise<OrganizationUsage> {
+  return await getCurrentUsage(
+    getOrganizationScope(organization.id),
+    organization.billingAnchorDay
+  )
+}
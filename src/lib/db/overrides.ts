@@ -0,0 +1,145 @@
+import { nanoid } from "nanoid"
+import type { ApiKey } from "@/lib/db/api-keys"
+import {
+  storeOverride,
+  getStoredOverride,
+  getAllStoredOverrides,
+  deleteStoredOverride,
+} from "@/lib/redis/override-storage"
+
+/**
+ * Time-bounded limit overrides (launch boosts, maintenance windows)
+ * While active they replace the limits of a single key or of every key on a tier
+ */
+
+export type LimitOverride = {
+  id: string
+  targetType: "key" | "tier"
+  targetId: string // API key ID or tier ID
+  perMinute: number | null // null keeps the regular limit
+  perDay: number | null
+  perMonth: number | null
+  startsAt: string
+  endsAt: string
+  reason: string | null
+  createdAt: string
+}
+
+export type EffectiveLimits = {
+  perMinute: number
+  perDay: number
+  perMonth: number // 0 = unlimited
+  override: LimitOverride | null
+}
+
+// Overrides are read on every request, so keep a short-lived copy in memory
+const OVERRIDE_CACHE_TTL_MS = 30 * 1000
+
+const overridesStore = new Map<string, LimitOverride>()
+let overridesLoadedAt = 0
+
+/**
+ * Reload overrides from Redis into memory
+ */
+export async function reloadOverrides(): Promise<void> {
+  const storedOverrides = await getAllStoredOverrides()
+  overridesStore.clear()
+  for (const override of storedOverrides) {
+    overridesStore.set(override.id, override)
+  }
+  overridesLoadedAt = Date.now()
+}
+
+async function ensureOverridesLoaded(): Promise<void> {
+  if (Date.now() - overridesLoadedAt > OVERRIDE_CACHE_TTL_MS) {
+    await reloadOverrides()
+  }
+}
+
+function isActive(override: LimitOverride, now: Date): boolean {
+  const time = now.getTime()
+  return new Date(override.startsAt).getTime() <= time && time < new Date(override.endsAt).getTime()
+}
+
+/**
+ * Find the override in effect for an API key
+ * A key override wins over a tier override; among equals the newest wins
+ */
+export async function findActiveOverride(
+  apiKey: ApiKey,
+  now: Date = new Date()
+): Promise<LimitOverride | null> {
+  await ensureOverridesLoaded()
+
+  const active = Array.from(overridesStore.values())
+    .filter(
+      (override) =>
+        isActive(override, now) &&
+        ((override.targetType === "key" && override.targetId === apiKey.id) ||
+          (override.targetType === "tier" && override.targetId === apiKey.tier))
+    )
+    .sort((a, b) => {
+      if (a.targetType !== b.targetType) {
+        return a.targetType === "key" ? -1 : 1
+      }
+      return b.createdAt.localeCompare(a.createdAt)
+    })
+
+  return active[0] ?? null
+}
+
+/**
+ * The limits to enforce for an API key right now, with any active override applied
+ */
+export async function resolveEffectiveLimits(apiKey: ApiKey): Promise<EffectiveLimits> {
+  const override = await findActiveOverride(apiKey)
+
+  return {
+    perMinute: override?.perMinute ?? apiKey.perMinute,
+    perDay: override?.perDay ?? apiKey.perDay,
+    perMonth: override?.perMonth ?? apiKey.perMonth,
+    override,
+  }
+}
+
+/**
+ * Overrides that are active or scheduled
+ */
+export async function listOverrides(): Promise<LimitOverride[]> {
+  await ensureOverridesLoaded()
+
+  const now = Date.now()
+  return Array.from(overridesStore.values())
+    .filter((override) => new Date(override.endsAt).getTime() > now)
+    .sort((a, b) => a.startsAt.localeCompare(b.startsAt))
+}
+
+export async function createOverride(
+  input: Omit<LimitOverride, "id" | "createdAt">
+): Promise<LimitOverride> {
+  const override: LimitOverride = {
+    ...input,
+    id: nanoid(),
+    createdAt: new Date().toISOString(),
+  }
+
+  overridesStore.set(override.id, override)
+
+  // Persist to Redis
+  console.log(`💾 Storing limit override for ${override.targetType} ${override.targetId} (${override.startsAt} → ${override.endsAt})`)
+  await storeOverride(override)
+
+  return override
+}
+
+export async function cancelOverride(id: string): Promise<void> {
+  const override = overridesStore.get(id) ?? (await getStoredOverride(id))
+  if (!override) {
+    throw new Error(`Override ${id} not found`)
+  }
+
+  overridesStore.delete(id)
+  await deleteStoredOverride(id)
+
+  console.log(`🗑️ Cancelled limit override for ${override.targetType} ${override.targetId}`)
+}
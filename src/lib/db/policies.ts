@@ -0,0 +1,120 @@
+import { nanoid } from "nanoid"
+import {
+  storePolicy,
+  getStoredPolicy,
+  getAllStoredPolicies,
+  deleteStoredPolicy,
+} from "@/lib/redis/policy-storage"
+import { matchesEndpoint } from "@/lib/utils"
+
+/**
+ * Per-endpoint rate limit policies
+ * Checked alongside the API key's tier limits, each with its own counters
+ */
+
+export type EndpointPolicy = {
+  id: string
+  endpoint: string // exact path, or a prefix ending in "*"
+  method: string | null // HTTP method, null matches every method
+  perMinute: number
+  perDay: number | null
+  cost: number | null // quota units per request, null keeps the route's cost
+}
+
+// Policies are read on every request, so keep a short-lived copy in memory
+const POLICY_CACHE_TTL_MS = 30 * 1000
+
+const policiesStore = new Map<string, EndpointPolicy>()
+let policiesLoadedAt = 0
+
+/**
+ * Reload policies from Redis into memory
+ */
+export async function reloadPolicies(): Promise<void> {
+  const storedPolicies = await getAllStoredPolicies()
+  policiesStore.clear()
+  for (const policy of storedPolicies) {
+    policiesStore.set(policy.id, policy)
+  }
+  policiesLoadedAt = Date.now()
+}
+
+async function ensurePoliciesLoaded(): Promise<void> {
+  if (Date.now() - policiesLoadedAt > POLICY_CACHE_TTL_MS) {
+    await reloadPolicies()
+  }
+}
+
+/**
+ * Find the policies that apply to a request
+ */
+export async function findMatchingPolicies(
+  endpoint: string,
+  method: string
+): Promise<EndpointPolicy[]> {
+  await ensurePoliciesLoaded()
+
+  return Array.from(policiesStore.values()).filter(
+    (policy) =>
+      matchesEndpoint(policy.endpoint, endpoint) &&
+      (!policy.method || policy.method === method.toUpperCase())
+  )
+}
+
+export async function listPolicies(): Promise<EndpointPolicy[]> {
+  await ensurePoliciesLoaded()
+  return Array.from(policiesStore.values())
+}
+
+export async function createPolicy(
+  input: Omit<EndpointPolicy, "id">
+): Promise<EndpointPolicy> {
+  const policy: EndpointPolicy = {
+    id: nanoid(),
+    endpoint: input.endpoint,
+    method: input.method ? input.method.toUpperCase() : null,
+    perMinute: input.perMinute,
+    perDay: input.perDay,
+    cost: input.cost,
+  }
+
+  policiesStore.set(policy.id, policy)
+
+  // Persist to Redis
+  console.log(`💾 Storing endpoint policy: ${policy.method ?? "*"} ${policy.endpoint} (${policy.perMinute}/min)`)
+  await storePolicy(policy)
+
+  return policy
+}
+
+export async function updatePolicy(
+  id: string,
+  updates: Partial<Omit<EndpointPolicy, "id">>
+): Promise<EndpointPolicy> {
+  const policy = policiesStore.get(id) ?? (await getStoredPolicy(id))
+  if (!policy) {
+    throw new Error(`Policy ${id} not found`)
+  }
+
+  Object.assign(policy, updates)
+  if (policy.method) {
+    policy.method = policy.method.toUpperCase()
+  }
+  policiesStore.set(id, policy)
+
+  await storePolicy(policy)
+
+  return policy
+}
+
+export async function deletePolicy(id: string): Promise<void> {
+  const policy = policiesStore.get(id) ?? (await getStoredPolicy(id))
+  if (!policy) {
+    throw new Error(`Policy ${id} not found`)
+  }
+
+  policiesStore.delete(id)
+  await deleteStoredPolicy(id)
+
+  console.log(`🗑️ Deleted endpoint policy: ${policy.method ?? "*"} ${policy.endpoint}`)
+}
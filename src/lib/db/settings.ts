@@ -0,0 +1,138 @@
+import { getAllTiers } from "@/lib/db/api-keys"
+import { env } from "@/lib/env"
+import {
+  storeLoadSheddingConfig,
+  getStoredLoadSheddingConfig,
+  storePenaltyBoxConfig,
+  getStoredPenaltyBoxConfig,
+  storeAdaptiveLimitsConfig,
+  getStoredAdaptiveLimitsConfig,
+} from "@/lib/redis/settings-storage"
+
+/**
+ * Deployment-wide settings that are editable at runtime
+ */
+
+export type LoadSheddingConfig = {
+  globalRpsLimit: number // requests per second across all keys, 0 = no ceiling
+  tierPriority: string[] // tier IDs, highest priority first
+}
+
+// e.g. more than 500 blocked requests in 300 seconds earns a 900 second ban
+export type PenaltyBoxConfig = {
+  blockThreshold: number // blocked requests tolerated per window, 0 = no bans
+  windowSeconds: number
+  banSeconds: number
+}
+
+// AIMD controller for limits under backend latency pressure
+export type AdaptiveLimitsConfig = {
+  targetP95Ms: number // p95 latency to hold, 0 = limits never adapt
+  minFactor: number // limits are never cut below this share
+  decreaseFactor: number // applied to the factor while p95 is over target
+  increaseStep: number // added back to the factor while p95 is under target
+}
+
+// Read on every request, so keep a short-lived copy in memory
+const SETTINGS_CACHE_TTL_MS = 10 * 1000
+
+let loadShedding: LoadSheddingConfig | null = null
+let loadSheddingLoadedAt = 0
+let penaltyBox: PenaltyBoxConfig | null = null
+let penaltyBoxLoadedAt = 0
+let adaptiveLimits: AdaptiveLimitsConfig | null = null
+let adaptiveLimitsLoadedAt = 0
+
+export async function getLoadSheddingConfig(): Promise<LoadSheddingConfig> {
+  if (!loadShedding || Date.now() - loadSheddingLoadedAt > SETTINGS_CACHE_TTL_MS) {
+    loadShedding = (await getStoredLoadSheddingConfig()) ?? {
+      globalRpsLimit: env.GLOBAL_RPS_LIMIT,
+      tierPriority: [],
+    }
+    loadSheddingLoadedAt = Date.now()
+  }
+  return loadShedding
+}
+
+export async function updateLoadSheddingConfig(
+  updates: Partial<LoadSheddingConfig>
+): Promise<LoadSheddingConfig> {
+  const config = { ...(await getLoadSheddingConfig()), ...updates }
+
+  console.log(`💾 Storing load shedding config: ${config.globalRpsLimit} req/s`)
+  await storeLoadSheddingConfig(config)
+
+  loadShedding = config
+  loadSheddingLoadedAt = Date.now()
+  return config
+}
+
+export async function getPenaltyBoxConfig(): Promise<PenaltyBoxConfig> {
+  if (!penaltyBox || Date.now() - penaltyBoxLoadedAt > SETTINGS_CACHE_TTL_MS) {
+    penaltyBox = (await getStoredPenaltyBoxConfig()) ?? {
+      blockThreshold: env.PENALTY_BLOCK_THRESHOLD,
+      windowSeconds: env.PENALTY_WINDOW_SECONDS,
+      banSeconds: env.PENALTY_BAN_SECONDS,
+    }
+    penaltyBoxLoadedAt = Date.now()
+  }
+  return penaltyBox
+}
+
+export async function updatePenaltyBoxConfig(
+  updates: Partial<PenaltyBoxConfig>
+): Promise<PenaltyBoxConfig> {
+  const config = { ...(await getPenaltyBoxConfig()), ...updates }
+
+  console.log(
+    `💾 Storing penalty box rule: >${config.blockThreshold} blocked in ${config.windowSeconds}s = ${config.banSeconds}s ban`
+  )
+  await storePenaltyBoxConfig(config)
+
+  penaltyBox = config
+  penaltyBoxLoadedAt = Date.now()
+  return config
+}
+
+export async function getAdaptiveLimitsConfig(): Promise<AdaptiveLimitsConfig> {
+  if (!adaptiveLimits || Date.now() - adaptiveLimitsLoadedAt > SETTINGS_CACHE_TTL_MS) {
+    adaptiveLimits = (await getStoredAdaptiveLimitsConfig()) ?? {
+      targetP95Ms: env.ADAPTIVE_TARGET_P95_MS,
+      minFactor: 0.1,
+      decreaseFactor: 0.7,
+      increaseStep: 0.05,
+    }
+    adaptiveLimitsLoadedAt = Date.now()
+  }
+  return adaptiveLimits
+}
+
+export async function updateAdaptiveLimitsConfig(
+  updates: Partial<AdaptiveLimitsConfig>
+): Promise<AdaptiveLimitsConfig> {
+  const config = { ...(await getAdaptiveLimitsConfig()), ...updates }
+
+  console.log(`💾 Storing adaptive limits config: p95 target ${config.targetP95Ms}ms`)
+  await storeAdaptiveLimitsConfig(config)
+
+  adaptiveLimits = config
+  adaptiveLimitsLoadedAt = Date.now()
+  return config
+}
+
+/**
+ * Order all tiers for shedding, highest priority first
+ * Tiers missing from the configured order follow it, ranked by rate limit
+ */
+export function rankTiers(config: LoadSheddingConfig): string[] {
+  const tiers = getAllTiers()
+  const known = new Set(tiers.map((tier) => tier.id))
+
+  const ranked = config.tierPriority.filter((id) => known.has(id))
+  const unranked = tiers
+    .filter((tier) => !ranked.includes(tier.id))
+    .sort((a, b) => b.rateLimit - a.rateLimit)
+    .map((tier) => tier.id)
+
+  return [...ranked, ...unranked]
+}
@@ -1,5 +1,17 @@
 const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN ?? "local-admin-token"
 const REDIS_URL = process.env.REDIS_URL ?? "redis://localhost:6379"
+// How to reach Redis: "standalone" at REDIS_URL, "cluster" or "sentinel"
+const REDIS_MODE = (process.env.REDIS_MODE ?? "standalone") as
+  | "standalone"
+  | "cluster"
+  | "sentinel"
+// Comma-separated host:port seed nodes for cluster mode, defaults to REDIS_URL
+const REDIS_CLUSTER_NODES = process.env.REDIS_CLUSTER_NODES ?? ""
+// Comma-separated host:port sentinels and the name of the master they monitor
+const REDIS_SENTINELS = process.env.REDIS_SENTINELS ?? ""
+const REDIS_SENTINEL_MASTER = process.env.REDIS_SENTINEL_MASTER ?? "mymaster"
+// Password for cluster nodes or the sentinel-managed master; standalone takes it from REDIS_URL
+const REDIS_PASSWORD = process.env.REDIS_PASSWORD ?? ""
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL ?? ""
 const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? ""
 const RATE_DEFAULT_PER_MINUTE = parseInt(
@@ -10,12 +22,112 @@ const RATE_DEFAULT_PER_DAY = parseInt(
   process.env.RATE_DEFAULT_PER_DAY ?? "5000",
   10
 )
+const CONCURRENCY_LEASE_TTL_MS = parseInt(
+  process.env.CONCURRENCY_LEASE_TTL_MS ?? "30000",
+  10
+)
+// Limits for traffic without a valid API key, counted per client IP
+const IP_RATE_PER_MINUTE = parseInt(
+  process.env.IP_RATE_PER_MINUTE ?? "30",
+  10
+)
+const IP_RATE_PER_DAY = parseInt(
+  process.env.IP_RATE_PER_DAY ?? "1000",
+  10
+)
+// Number of reverse proxies in front of the app that append to x-forwarded-for;
+// 0 ignores the header, and Node servers then count clients by their connection
+const TRUSTED_PROXY_COUNT = parseInt(
+  process.env.TRUSTED_PROXY_COUNT ?? "1",
+  10
+)
+// Rate limit headers on API responses: "legacy" X-RateLimit-*, "ietf" RateLimit/RateLimit-Policy, or "both"
+const RATE_LIMIT_HEADERS = (process.env.RATE_LIMIT_HEADERS ?? "legacy") as
+  | "legacy"
+  | "ietf"
+  | "both"
+// Default global ceiling until one is set in the settings API, 0 = disabled
+const GLOBAL_RPS_LIMIT = parseInt(
+  process.env.GLOBAL_RPS_LIMIT ?? "0",
+  10
+)
+// Default penalty box rule until one is set in the settings API, 0 = disabled
+const PENALTY_BLOCK_THRESHOLD = parseInt(
+  process.env.PENALTY_BLOCK_THRESHOLD ?? "0",
+  10
+)
+const PENALTY_WINDOW_SECONDS = parseInt(
+  process.env.PENALTY_WINDOW_SECONDS ?? "300",
+  10
+)
+const PENALTY_BAN_SECONDS = parseInt(
+  process.env.PENALTY_BAN_SECONDS ?? "900",
+  10
+)
+// Default p95 latency target for adaptive limits until one is set in the settings API, 0 = disabled
+const ADAPTIVE_TARGET_P95_MS = parseInt(
+  process.env.ADAPTIVE_TARGET_P95_MS ?? "0",
+  10
+)
+// Where counters, keys and events live: "redis", or "memory" for a single
+// instance without Redis (nothing survives a restart)
+const STORAGE_BACKEND = (process.env.STORAGE_BACKEND ?? "redis") as "redis" | "memory"
+// Redis over HTTP for the edge middleware, which cannot open TCP connections
+// (an Upstash-style REST endpoint, or scripts/rest-redis-proxy.mjs locally)
+const REDIS_REST_URL = process.env.REDIS_REST_URL ?? ""
+const REDIS_REST_TOKEN = process.env.REDIS_REST_TOKEN ?? ""
+// JSON list of limits the root middleware applies before any route code runs, e.g.
+// [{"pattern":"/api/public/*","perMinute":30,"by":"ip"}]; empty leaves every path alone.
+// "by":"api-key" counts the unverified header, so it does not hold back a client rotating it
+const EDGE_RATE_LIMIT_RULES = process.env.EDGE_RATE_LIMIT_RULES ?? ""
+// What the limiter does when Redis is unreachable: "fail-open", "fail-closed" or "local"
+const REDIS_FAILURE_POLICY = (process.env.REDIS_FAILURE_POLICY ?? "fail-closed") as
+  | "fail-open"
+  | "fail-closed"
+  | "local"
+// App instances sharing the limits; the local limiter grants each an even share
+const ASSUMED_INSTANCE_COUNT = parseInt(
+  process.env.ASSUMED_INSTANCE_COUNT ?? "1",
+  10
+)
+// Consecutive Redis failures that open the circuit, and how long it stays open
+const REDIS_BREAKER_THRESHOLD = parseInt(
+  process.env.REDIS_BREAKER_THRESHOLD ?? "3",
+  10
+)
+const REDIS_BREAKER_COOLDOWN_MS = parseInt(
+  process.env.REDIS_BREAKER_COOLDOWN_MS ?? "10000",
+  10
+)
 
 export const env = {
   ADMIN_API_TOKEN,
   REDIS_URL,
+  REDIS_MODE,
+  REDIS_CLUSTER_NODES,
+  REDIS_SENTINELS,
+  REDIS_SENTINEL_MASTER,
+  REDIS_PASSWORD,
   SUPABASE_URL,
   SUPABASE_ANON_KEY,
   RATE_DEFAULT_PER_MINUTE,
   RATE_DEFAULT_PER_DAY,
+  CONCURRENCY_LEASE_TTL_MS,
+  IP_RATE_PER_MINUTE,
+  IP_RATE_PER_DAY,
+  TRUSTED_PROXY_COUNT,
+  RATE_LIMIT_HEADERS,
+  GLOBAL_RPS_LIMIT,
+  PENALTY_BLOCK_THRESHOLD,
+  PENALTY_WINDOW_SECONDS,
+  PENALTY_BAN_SECONDS,
+  ADAPTIVE_TARGET_P95_MS,
+  STORAGE_BACKEND,
+  REDIS_REST_URL,
+  REDIS_REST_TOKEN,
+  EDGE_RATE_LIMIT_RULES,
+  REDIS_FAILURE_POLICY,
+  ASSUMED_INSTANCE_COUNT,
+  REDIS_BREAKER_THRESHOLD,
+  REDIS_BREAKER_COOLDOWN_MS,
 }
@@ -0,0 +1,42 @@
+import type { NextRequest } from "next/server"
+import { env } from "@/lib/env"
+
+/**
+ * Resolve the client IP from x-forwarded-for, trusting only the entries
+ * appended by our own proxies (TRUSTED_PROXY_COUNT)
+ *
+ * Each proxy appends the address it received the request from, so with N
+ * trusted proxies the client is the Nth entry from the right; anything to
+ * the left of it was supplied by the client and can be spoofed.
+ */
+export function getClientIp(request: NextRequest): string {
+  return resolveClientIp(request.headers.get("x-forwarded-for"), request.headers.get("x-real-ip"))
+}
+
+/**
+ * Resolve the client IP from the raw x-forwarded-for and x-real-ip headers,
+ * or the connection's own address where the runtime exposes it
+ */
+export function resolveClientIp(
+  forwardedFor: string | null,
+  realIp: string | null,
+  remoteAddress: string | null = null
+): string {
+  if (env.TRUSTED_PROXY_COUNT <= 0) {
+    // No proxy to vouch for the headers, so only the connection can be trusted;
+    // without one all callers share one bucket
+    return remoteAddress || "unknown"
+  }
+
+  if (forwardedFor) {
+    const hops = forwardedFor
+      .split(",")
+      .map((hop) => hop.trim())
+      .filter(Boolean)
+    if (hops.length > 0) {
+      return hops[Math.max(0, hops.length - env.TRUSTED_PROXY_COUNT)]
+    }
+  }
+
+  return realIp?.trim() || remoteAddress || "unknown"
+}
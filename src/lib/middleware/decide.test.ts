@@ -0,0 +1,209 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest"
+
+vi.hoisted(() => {
+  process.env.STORAGE_BACKEND = "memory"
+  process.env.IP_RATE_PER_MINUTE = "3"
+})
+
+import { createApiKey, createTier, findApiKeyByValue } from "@/lib/db/api-keys"
+import { createOverride } from "@/lib/db/overrides"
+import { createPolicy } from "@/lib/db/policies"
+import { acquireLease } from "@/lib/redis/concurrency"
+import { getPolicyScope } from "@/lib/redis/keys"
+import { getCurrentUsage } from "@/lib/redis/rate-limiter"
+import { decide, type RequestIdentity } from "./decide"
+
+// Spied on to see which requests reach the key lookup
+vi.mock("@/lib/db/api-keys", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/db/api-keys")>()
+  return { ...actual, findApiKeyByValue: vi.fn(actual.findApiKeyByValue) }
+})
+
+let apiKey: string
+
+beforeAll(async () => {
+  ;({ apiKey } = await createApiKey("Test key", "premium"))
+})
+
+function identity(overrides: Partial<RequestIdentity>): RequestIdentity {
+  return { apiKey: null, ip: "1.1.1.1", endpoint: "/api/data", method: "GET", ...overrides }
+}
+
+describe("unauthenticated IP throttling", () => {
+  it("throttles an IP that keeps failing authentication", async () => {
+    const results = []
+    for (let i = 0; i < 4; i++) {
+      results.push(await decide(identity({ ip: "2.2.2.2", apiKey: i % 2 ? "bad_key" : null })))
+    }
+
+    expect(results.map((r) => !r.allowed && r.reason)).toEqual([
+      "Missing x-api-key header",
+      "Invalid API key",
+      "Missing x-api-key header",
+      "Too many unauthenticated requests from this IP",
+    ])
+  })
+
+  it("turns away an IP over its limit before looking up the key it sent", async () => {
+    for (let i = 0; i < 3; i++) {
+      await decide(identity({ ip: "4.4.4.4" }))
+    }
+    vi.mocked(findApiKeyByValue).mockClear()
+
+    const result = await decide(identity({ ip: "4.4.4.4", apiKey: "made_up_key" }))
+
+    expect(result).toMatchObject({
+      allowed: false,
+      reason: "Too many unauthenticated requests from this IP",
+    })
+    expect(findApiKeyByValue).not.toHaveBeenCalled()
+  })
+
+  it("still lets valid keys through from a throttled IP", async () => {
+    for (let i = 0; i < 4; i++) {
+      await decide(identity({ ip: "3.3.3.3" }))
+    }
+    expect((await decide(identity({ ip: "3.3.3.3" }))).allowed).toBe(false)
+
+    const result = await decide(identity({ ip: "3.3.3.3", apiKey }))
+    expect(result.allowed).toBe(true)
+  })
+
+  it("does not throttle clients whose IP is unknown", async () => {
+    const results = []
+    for (let i = 0; i < 5; i++) {
+      results.push(await decide(identity({ ip: "unknown" })))
+    }
+
+    expect(results.every((r) => !r.allowed && r.reason === "Missing x-api-key header")).toBe(true)
+  })
+})
+
+describe("limit overrides", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("raises the burst bucket along with the minute limit", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    vi.setSystemTime(new Date("2025-03-10T12:00:10Z"))
+
+    // Basic keys refill at 20/s up to 30 tokens; doubling 1200/min doubles both
+    const { id, apiKey: boosted } = await createApiKey("Boosted key", "basic")
+    await createOverride({
+      targetType: "key",
+      targetId: id,
+      perMinute: 2400,
+      perDay: null,
+      perMonth: null,
+      startsAt: "2025-03-10T00:00:00.000Z",
+      endsAt: "2025-03-11T00:00:00.000Z",
+      reason: "Launch",
+    })
+
+    const results = []
+    for (let i = 0; i < 61; i++) {
+      results.push(await decide(identity({ apiKey: boosted })))
+    }
+
+    expect(results.slice(0, 60).every((r) => r.allowed)).toBe(true)
+    expect(results[60]).toMatchObject({ allowed: false, reason: "Burst limit exceeded" })
+  })
+})
+
+describe("endpoint policies", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("leaves the key's quota and the other policies alone when a policy rejects", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    vi.setSystemTime(new Date("2025-03-10T12:00:10Z"))
+
+    const { apiKey: key } = await createApiKey("Policy key", "premium")
+    const policy = await createPolicy({
+      endpoint: "/api/reports",
+      method: null,
+      perMinute: 10,
+      perDay: null,
+      cost: null,
+    })
+    const request = identity({ apiKey: key, endpoint: "/api/reports" })
+    const routePolicy = { policy: { perMinute: 1 } }
+
+    expect((await decide(request, routePolicy)).allowed).toBe(true)
+    expect(await decide(request, routePolicy)).toMatchObject({
+      allowed: false,
+      reason: "Endpoint limit exceeded (* /api/reports)",
+    })
+
+    expect(await getCurrentUsage(key)).toEqual({ minute: 1, day: 1, month: 0 })
+    expect((await getCurrentUsage(getPolicyScope(key, policy.id))).minute).toBe(1)
+  })
+
+  it("refunds the policies when the key's own limits reject", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    vi.setSystemTime(new Date("2025-03-10T12:00:10Z"))
+
+    // One request a minute
+    await createTier("Trickle", 1 / 60, 5)
+    const { apiKey: key } = await createApiKey("Trickle key", "trickle")
+    const policy = await createPolicy({
+      endpoint: "/api/exports",
+      method: null,
+      perMinute: 10,
+      perDay: null,
+      cost: null,
+    })
+    const request = identity({ apiKey: key, endpoint: "/api/exports" })
+
+    expect((await decide(request)).allowed).toBe(true)
+    expect(await decide(request)).toMatchObject({ allowed: false, reason: "Rate limit exceeded" })
+
+    expect((await getCurrentUsage(getPolicyScope(key, policy.id))).minute).toBe(1)
+  })
+})
+
+describe("concurrency limits", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("charges no quota for a request turned away at the concurrency limit", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    vi.setSystemTime(new Date("2025-03-10T12:00:10Z"))
+
+    await createTier("Single", 10, 20, undefined, { maxConcurrency: 1 })
+    const { apiKey: key } = await createApiKey("Single key", "single")
+
+    const held = await decide(identity({ apiKey: key }))
+    expect(await decide(identity({ apiKey: key }))).toMatchObject({
+      allowed: false,
+      reason: "Concurrency limit exceeded",
+    })
+    expect(await getCurrentUsage(key)).toEqual({ minute: 1, day: 1, month: 0 })
+
+    if (!held.allowed) {
+      throw new Error("expected the first request through")
+    }
+    await held.release()
+    expect((await decide(identity({ apiKey: key }))).allowed).toBe(true)
+  })
+
+  it("frees the slot when a later limit turns the request away", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    vi.setSystemTime(new Date("2025-03-10T12:00:10Z"))
+
+    await createTier("Single trickle", 1 / 60, 5, undefined, { maxConcurrency: 1 })
+    const { apiKey: key } = await createApiKey("Single trickle key", "single-trickle")
+
+    const first = await decide(identity({ apiKey: key }))
+    if (!first.allowed) {
+      throw new Error("expected the first request through")
+    }
+    await first.release()
+    expect(await decide(identity({ apiKey: key }))).toMatchObject({ reason: "Rate limit exceeded" })
+
+    expect((await acquireLease(key, 1, 30000)).acquired).toBe(true)
+  })
+})
@@ -0,0 +1,904 @@
+import {
+  findApiKeyByValue,
+  findLocalApiKeyByValue,
+  getApiKeyTimeZone,
+  getTier,
+} from "@/lib/db/api-keys"
+import { findMatchingPolicies, type EndpointPolicy } from "@/lib/db/policies"
+import { getOrganization } from "@/lib/db/organizations"
+import { resolveEffectiveLimits } from "@/lib/db/overrides"
+import {
+  getAdaptiveLimitsConfig,
+  getLoadSheddingConfig,
+  getPenaltyBoxConfig,
+  rankTiers,
+} from "@/lib/db/settings"
+import {
+  checkRateLimit,
+  getCurrentUsage,
+  msUntilWindowEnd,
+  refundRateLimit,
+  type RateLimitResult as CounterResult,
+} from "@/lib/redis/rate-limiter"
+import { getBillingPeriodEnd, getDayEnd, getIpScope, getPolicyScope } from "@/lib/redis/keys"
+import { acquireLease, releaseLease } from "@/lib/redis/concurrency"
+import { checkGlobalLoad } from "@/lib/redis/load-shedding"
+import { getTierFactor, recordHandlerLatency, refreshAdaptiveFactor } from "@/lib/redis/adaptive-limits"
+import { getBanRemainingMs, recordBlockedRequest } from "@/lib/redis/penalty-box"
+import { addEvent } from "@/lib/redis/events"
+import { updateLastSeen } from "@/lib/redis/metadata"
+import {
+  ensureRedisConnected,
+  isRedisUnavailable,
+  recordRedisFailure,
+  recordRedisSuccess,
+  RedisUnavailableError,
+} from "@/lib/redis/client"
+import { checkLocalRateLimit, getLocalShare } from "@/lib/middleware/local-limiter"
+import { buildRateLimitHeaders, type RateLimitWindow } from "@/lib/middleware/headers"
+import { env } from "@/lib/env"
+import { formatInTimeZone } from "@/lib/timezone"
+
+/**
+ * The rate limiter itself, free of any web framework
+ *
+ * Adapters turn their framework's request into a RequestIdentity, call decide
+ * and render the result with getBlockedStatus and getRateLimitHeaders, so every
+ * framework counts against the same Redis keys and writes the same events.
+ * The Next.js adapter is ./rate-limit, Express and node:http are ./node-adapter.
+ */
+
+export type QuotaWarning = {
+  window: "minute" | "day" | "month"
+  threshold: number // percentage of the limit
+  used: number
+  limit: number
+}
+
+export type QuotaUsage = {
+  minuteCount: number
+  dayCount: number
+  monthCount: number
+  minuteLimit: number
+  dayLimit: number
+  monthLimit: number | null
+  resetAfter: number
+  dayResetAt: string // local midnight in the key's time zone, ISO 8601 with offset
+  monthResetAt: string | null
+}
+
+export type RateLimitResult =
+  | (QuotaUsage & {
+      allowed: true
+      cost: number
+      warnings: QuotaWarning[] // quotas at or past one of the tier's warning thresholds
+      // Frees the request's concurrency slot; call once the handler is done
+      release: () => Promise<void>
+      // Reports how long the handler took; adaptive limits follow this latency
+      recordLatency: (latencyMs: number) => Promise<void>
+    })
+  | {
+      allowed: false
+      reason: string
+      retryAfter: number
+      usage?: QuotaUsage // the key's own windows, when one of its limits was hit
+    }
+
+/**
+ * Limits a route sets for itself, enforced like an endpoint policy on top of
+ * the key's own limits
+ */
+export type RoutePolicy = {
+  perMinute: number
+  perDay?: number
+}
+
+/**
+ * What the limiter needs to know about a request, whatever framework it came through
+ */
+export type RequestIdentity = {
+  apiKey: string | null // the key value the client sent, null when it sent none
+  ip: string // client IP, for throttling unauthenticated requests
+  endpoint: string // name the request is counted and logged under
+  method: string
+}
+
+export type LimitPolicy = {
+  cost?: number // quota units the route consumes per request, defaults to 1
+  policy?: RoutePolicy
+}
+
+/**
+ * What a handler behind one of the adapters gets to see about its request
+ */
+export type RateLimitContext = {
+  apiKey: string // the key the request was counted against
+  decision: Extract<RateLimitResult, { allowed: true }>
+}
+
+/**
+ * The route's own policy in the shape of an admin-defined endpoint policy
+ */
+function toEndpointPolicy(endpoint: string, policy: RoutePolicy): EndpointPolicy {
+  return {
+    id: `route:${endpoint}`,
+    endpoint,
+    method: null,
+    perMinute: policy.perMinute,
+    perDay: policy.perDay ?? null,
+    cost: null,
+  }
+}
+
+/**
+ * Resolve the request cost; a matching policy's cost overrides the route default
+ */
+function resolveCost(policies: EndpointPolicy[], routeCost?: number): number {
+  const policyCosts = policies
+    .map((policy) => policy.cost)
+    .filter((cost): cost is number => cost !== null)
+
+  if (policyCosts.length > 0) {
+    return Math.max(...policyCosts)
+  }
+  return routeCost ?? 1
+}
+
+type PolicyCheck = {
+  blocked: { policy: EndpointPolicy; result: CounterResult } | null
+  charged: CounterResult[] // policies the request was counted against and allowed by
+}
+
+/**
+ * Count the request against every matching endpoint policy, stopping at the
+ * first one that is over its limit
+ * The policies checked before it are refunded, so a rejected request only
+ * counts against the policy that turned it away.
+ */
+async function checkEndpointPolicies(
+  apiKeyValue: string,
+  policies: EndpointPolicy[],
+  cost: number
+): Promise<PolicyCheck> {
+  const charged: CounterResult[] = []
+  for (const policy of policies) {
+    const result = await checkRateLimit(
+      getPolicyScope(apiKeyValue, policy.id),
+      policy.perMinute,
+      policy.perDay ?? Number.MAX_SAFE_INTEGER,
+      { cost }
+    )
+    if (result.isOverLimit) {
+      await refundEndpointPolicies(charged, cost)
+      return { blocked: { policy, result }, charged: [] }
+    }
+    charged.push(result)
+  }
+  return { blocked: null, charged }
+}
+
+/**
+ * Hand back what a request took from the endpoint policies that allowed it
+ */
+async function refundEndpointPolicies(charged: CounterResult[], cost: number): Promise<void> {
+  for (const result of charged) {
+    await refundRateLimit(result, cost)
+  }
+}
+
+/**
+ * Count a request that failed authentication against its client IP
+ * Returns the seconds until the IP may retry once it is over its limits, otherwise null
+ */
+async function chargeClientIp(ip: string): Promise<number | null> {
+  // Clients whose address can't be told apart all share "unknown", so one noisy
+  // client would lock out all the others
+  if (ip === "unknown") {
+    return null
+  }
+
+  const result = await checkRateLimit(getIpScope(ip), env.IP_RATE_PER_MINUTE, env.IP_RATE_PER_DAY)
+  return result.isOverLimit ? Math.max(1, Math.ceil(result.retryAfterMs / 1000)) : null
+}
+
+/**
+ * Seconds until an IP that kept failing authentication may retry, or null while
+ * it is under its limits; reads the IP's counters without adding to them
+ */
+async function getIpRetryAfter(ip: string): Promise<number | null> {
+  if (ip === "unknown") {
+    return null
+  }
+
+  const usage = await getCurrentUsage(getIpScope(ip))
+  const now = new Date()
+  const window =
+    usage.day >= env.IP_RATE_PER_DAY ? "day" : usage.minute >= env.IP_RATE_PER_MINUTE ? "minute" : null
+  return window ? Math.max(1, Math.ceil(msUntilWindowEnd(window, now) / 1000)) : null
+}
+
+/**
+ * Turn away a request from an IP over its unauthenticated request limits
+ */
+async function rejectThrottledIp(
+  identity: RequestIdentity,
+  startTime: number,
+  retryAfter: number
+): Promise<RateLimitResult> {
+  await addEvent({
+    timestamp: new Date().toISOString(),
+    apiKey: identity.apiKey ?? "anonymous",
+    endpoint: identity.endpoint,
+    status: 429,
+    reason: "IP rate limit exceeded",
+    latencyMs: Date.now() - startTime,
+  })
+
+  return {
+    allowed: false,
+    reason: "Too many unauthenticated requests from this IP",
+    retryAfter,
+  }
+}
+
+/**
+ * Reject a request whose key is missing or unknown
+ * Clients that keep failing authentication are throttled by IP; requests with
+ * a valid key never touch the IP counters.
+ */
+async function rejectUnauthenticated(
+  identity: RequestIdentity,
+  startTime: number,
+  eventReason: string,
+  reason: string
+): Promise<RateLimitResult> {
+  const apiKey = identity.apiKey ?? "anonymous"
+  const ipRetryAfter = await chargeClientIp(identity.ip)
+
+  if (ipRetryAfter !== null) {
+    return rejectThrottledIp(identity, startTime, ipRetryAfter)
+  }
+
+  await addEvent({
+    timestamp: new Date().toISOString(),
+    apiKey,
+    endpoint: identity.endpoint,
+    status: 401,
+    reason: eventReason,
+    latencyMs: Date.now() - startTime,
+  })
+
+  return {
+    allowed: false,
+    reason,
+    retryAfter: 60,
+  }
+}
+
+/**
+ * Count a blocked request towards the penalty box rule, if one is configured
+ */
+async function recordStrike(apiKeyValue: string, apiKeyId: string): Promise<void> {
+  const config = await getPenaltyBoxConfig()
+  if (config.blockThreshold <= 0) {
+    return
+  }
+
+  await recordBlockedRequest(
+    apiKeyValue,
+    apiKeyId,
+    config.blockThreshold,
+    config.windowSeconds,
+    config.banSeconds
+  )
+}
+
+/**
+ * Find the highest warning threshold each window has reached, and which of
+ * those this request was the one to cross
+ */
+function getQuotaWarnings(
+  thresholds: number[],
+  windows: { window: QuotaWarning["window"]; used: number; limit: number | null }[],
+  cost: number
+): { warnings: QuotaWarning[]; crossed: QuotaWarning[] } {
+  const warnings: QuotaWarning[] = []
+  const crossed: QuotaWarning[] = []
+
+  for (const { window, used, limit } of windows) {
+    if (!limit) {
+      continue
+    }
+    const reached = thresholds.filter((t) => used >= (limit * t) / 100)
+    if (reached.length === 0) {
+      continue
+    }
+
+    const warning = { window, threshold: Math.max(...reached), used, limit }
+    warnings.push(warning)
+    if (used - cost < (limit * warning.threshold) / 100) {
+      crossed.push(warning)
+    }
+  }
+
+  return { warnings, crossed }
+}
+
+/**
+ * Format quota warnings for the X-RateLimit-Warning header,
+ * e.g. "day;threshold=95;used=9512;limit=10000"
+ */
+export function formatQuotaWarnings(warnings: QuotaWarning[]): string {
+  return warnings
+    .map((w) => `${w.window};threshold=${w.threshold};used=${w.used};limit=${w.limit}`)
+    .join(", ")
+}
+
+/**
+ * Decide whether to shed the request under the global RPS ceiling,
+ * dropping lower-priority tiers first
+ */
+async function shouldShedLoad(tierId: string): Promise<boolean> {
+  const config = await getLoadSheddingConfig()
+  if (config.globalRpsLimit <= 0) {
+    return false
+  }
+
+  const ranking = rankTiers(config)
+  const rank = ranking.indexOf(tierId)
+  const { shed } = await checkGlobalLoad(
+    config.globalRpsLimit,
+    rank === -1 ? ranking.length : rank,
+    // Keys on an unknown tier rank below every configured tier
+    rank === -1 ? ranking.length + 1 : ranking.length
+  )
+  return shed
+}
+
+/**
+ * Share of the per-minute and burst limits to grant while backend latency is
+ * over target; lower-priority tiers give up more of their limits
+ */
+async function getAdaptiveFactor(tierId: string): Promise<number> {
+  const config = await getAdaptiveLimitsConfig()
+  if (config.targetP95Ms <= 0) {
+    return 1
+  }
+
+  const { factor } = await refreshAdaptiveFactor(config)
+  const ranking = rankTiers(await getLoadSheddingConfig())
+  // Keys on an unknown tier take the full reduction
+  return getTierFactor(factor, ranking.indexOf(tierId), ranking.length)
+}
+
+/**
+ * Decide whether a request may go ahead, counting it against every limit that applies
+ * Falls back to the configured failure policy when Redis is unavailable
+ */
+export async function decide(
+  identity: RequestIdentity,
+  policy: LimitPolicy = {}
+): Promise<RateLimitResult> {
+  try {
+    const result = await enforceWithRedis(identity, policy)
+    recordRedisSuccess()
+    return result
+  } catch (err) {
+    // Anything other than a lost connection is a real error
+    if (!isRedisUnavailable(err)) {
+      throw err
+    }
+    if (!(err instanceof RedisUnavailableError)) {
+      recordRedisFailure()
+    }
+    return enforceWithoutRedis(identity, policy)
+  }
+}
+
+/**
+ * Decide a request while Redis is unavailable, according to REDIS_FAILURE_POLICY
+ * Nothing can be recorded, so these requests leave no events behind
+ */
+function enforceWithoutRedis(
+  identity: RequestIdentity,
+  options: LimitPolicy
+): RateLimitResult {
+  const policy = env.REDIS_FAILURE_POLICY
+
+  if (policy === "fail-closed") {
+    return {
+      allowed: false,
+      reason: "Rate limiter unavailable",
+      retryAfter: Math.ceil(env.REDIS_BREAKER_COOLDOWN_MS / 1000),
+    }
+  }
+
+  const apiKeyValue = identity.apiKey
+
+  if (!apiKeyValue) {
+    return {
+      allowed: false,
+      reason: "Missing x-api-key header",
+      retryAfter: 60,
+    }
+  }
+
+  // Only keys this instance has already loaded can be checked without Redis
+  const apiKey = findLocalApiKeyByValue(apiKeyValue)
+
+  if (apiKey?.disabled) {
+    return {
+      allowed: false,
+      reason: "API key is disabled",
+      retryAfter: 3600,
+    }
+  }
+
+  const cost = options.cost ?? 1
+  const timeZone = apiKey ? getApiKeyTimeZone(apiKey) : undefined
+  const now = new Date()
+  const allowed = {
+    allowed: true as const,
+    monthCount: 0,
+    monthLimit: null,
+    dayResetAt: formatInTimeZone(getDayEnd(now, timeZone), timeZone),
+    monthResetAt: null,
+    cost,
+    warnings: [],
+    release: async () => {},
+    recordLatency: async () => {},
+  }
+
+  if (policy === "fail-open") {
+    // Unverified keys are let through too; limits are reported but not counted
+    const perMinute = apiKey?.perMinute ?? env.RATE_DEFAULT_PER_MINUTE
+    const perDay = apiKey?.perDay ?? env.RATE_DEFAULT_PER_DAY
+    return {
+      ...allowed,
+      minuteCount: 0,
+      dayCount: 0,
+      minuteLimit: getLocalShare(perMinute),
+      dayLimit: getLocalShare(perDay),
+      resetAfter: Math.ceil(msUntilWindowEnd("minute", now) / 1000),
+    }
+  }
+
+  if (!apiKey) {
+    return {
+      allowed: false,
+      reason: "Invalid API key",
+      retryAfter: 60,
+    }
+  }
+
+  const result = checkLocalRateLimit(apiKeyValue, apiKey.perMinute, apiKey.perDay, cost, timeZone)
+
+  if (result.isOverLimit) {
+    return {
+      allowed: false,
+      reason: "Rate limit exceeded",
+      retryAfter: Math.max(1, Math.ceil(result.retryAfterMs / 1000)),
+    }
+  }
+
+  return {
+    ...allowed,
+    minuteCount: result.minuteCount,
+    dayCount: result.dayCount,
+    minuteLimit: result.minuteLimit,
+    dayLimit: result.dayLimit,
+    resetAfter: Math.ceil(msUntilWindowEnd("minute", now) / 1000),
+  }
+}
+
+/**
+ * Enforce every limit against the shared Redis counters
+ */
+async function enforceWithRedis(
+  identity: RequestIdentity,
+  options: LimitPolicy
+): Promise<RateLimitResult> {
+  const startTime = Date.now()
+  const { apiKey: apiKeyValue, endpoint } = identity
+
+  // Ensure Redis is connected
+  await ensureRedisConnected()
+
+  if (!apiKeyValue) {
+    return rejectUnauthenticated(identity, startTime, "Missing API key", "Missing x-api-key header")
+  }
+
+  // Banned keys are turned away on a single flag lookup, before any counter is touched
+  const banRemainingMs = await getBanRemainingMs(apiKeyValue)
+
+  if (banRemainingMs !== null) {
+    await addEvent({
+      timestamp: new Date().toISOString(),
+      apiKey: apiKeyValue,
+      endpoint,
+      status: 429,
+      reason: "Banned (penalty box)",
+      latencyMs: Date.now() - startTime,
+    })
+
+    return {
+      allowed: false,
+      reason: "API key temporarily banned for repeated rate limit violations",
+      retryAfter: Math.max(1, Math.ceil(banRemainingMs / 1000)),
+    }
+  }
+
+  // An IP that keeps failing authentication is turned away before the key is
+  // looked up, so a flood of made-up keys costs no lookups; keys this instance
+  // already knows are let through
+  if (!findLocalApiKeyByValue(apiKeyValue)) {
+    const ipRetryAfter = await getIpRetryAfter(identity.ip)
+    if (ipRetryAfter !== null) {
+      return rejectThrottledIp(identity, startTime, ipRetryAfter)
+    }
+  }
+
+  // Find API key in database
+  const apiKey = await findApiKeyByValue(apiKeyValue)
+
+  if (!apiKey) {
+    return rejectUnauthenticated(identity, startTime, "Invalid API key", "Invalid API key")
+  }
+
+  if (apiKey.disabled) {
+    await addEvent({
+      timestamp: new Date().toISOString(),
+      apiKey: apiKeyValue,
+      endpoint,
+      status: 403,
+      reason: "API key disabled",
+      latencyMs: Date.now() - startTime,
+    })
+
+    return {
+      allowed: false,
+      reason: "API key is disabled",
+      retryAfter: 3600,
+    }
+  }
+
+  if (await shouldShedLoad(apiKey.tier)) {
+    await addEvent({
+      timestamp: new Date().toISOString(),
+      apiKey: apiKeyValue,
+      endpoint,
+      status: 503,
+      reason: "Load shed",
+      latencyMs: Date.now() - startTime,
+    })
+
+    return {
+      allowed: false,
+      reason: "Service overloaded, request shed",
+      retryAfter: 1,
+    }
+  }
+
+  const policies = await findMatchingPolicies(endpoint, identity.method)
+  if (options.policy) {
+    policies.push(toEndpointPolicy(endpoint, options.policy))
+  }
+  const cost = resolveCost(policies, options.cost)
+
+  // Check rate limits (burst bucket refills at the tier's per-second rate)
+  const tier = getTier(apiKey.tier)
+  // Shadow mode evaluates every limit but only records what would have been blocked
+  const shadowMode = apiKey.shadowMode || !!tier?.shadowMode
+  const timeZone = getApiKeyTimeZone(apiKey)
+  // Scheduled overrides (boosts, maintenance windows) replace the key's limits while active
+  const limits = await resolveEffectiveLimits(apiKey)
+  // Short-window limits shrink while the backend is slow; daily and monthly quotas are left alone
+  const adaptiveFactor = await getAdaptiveFactor(apiKey.tier)
+  const minuteLimit = Math.max(1, Math.floor(limits.perMinute * adaptiveFactor))
+  // The burst bucket scales with an override's minute limit, so a boost is not
+  // held back by the tier's refill rate (or a lowered limit let through in bursts)
+  const burstFactor =
+    adaptiveFactor *
+    (limits.override?.perMinute && apiKey.perMinute > 0 ? limits.perMinute / apiKey.perMinute : 1)
+
+  let wouldBlockReason: string | null = null
+
+  // Hold a concurrency slot for the lifetime of the handler; taken before any
+  // quota is charged, so a request turned away here costs the key nothing
+  let release = async () => {}
+  if (tier?.maxConcurrency) {
+    const lease = await acquireLease(
+      apiKeyValue,
+      tier.maxConcurrency,
+      env.CONCURRENCY_LEASE_TTL_MS
+    )
+
+    if (lease.acquired) {
+      release = () => releaseLease(apiKeyValue, lease.leaseId)
+    } else if (shadowMode) {
+      wouldBlockReason = "Concurrency limit exceeded"
+    } else {
+      await addEvent({
+        timestamp: new Date().toISOString(),
+        apiKey: apiKeyValue,
+        endpoint,
+        status: 429,
+        reason: "Concurrency limit exceeded",
+        latencyMs: Date.now() - startTime,
+        cost,
+      })
+      await recordStrike(apiKeyValue, apiKey.id)
+
+      return {
+        allowed: false,
+        reason: "Concurrency limit exceeded",
+        retryAfter: 1,
+      }
+    }
+  }
+
+  // Endpoint policies are enforced on top of the key's own limits, and checked
+  // first so a request they turn away leaves the key's quota alone
+  const policyCheck = await checkEndpointPolicies(apiKeyValue, policies, cost)
+
+  if (policyCheck.blocked) {
+    const { policy, result } = policyCheck.blocked
+    const reason = `Endpoint limit exceeded (${policy.method ?? "*"} ${policy.endpoint})`
+
+    if (shadowMode) {
+      wouldBlockReason = wouldBlockReason ?? reason
+    } else {
+      await release()
+      await addEvent({
+        timestamp: new Date().toISOString(),
+        apiKey: apiKeyValue,
+        endpoint,
+        status: 429,
+        reason,
+        latencyMs: Date.now() - startTime,
+        cost,
+      })
+      await recordStrike(apiKeyValue, apiKey.id)
+
+      return {
+        allowed: false,
+        reason,
+        retryAfter: Math.max(1, Math.ceil(result.retryAfterMs / 1000)),
+      }
+    }
+  }
+
+  // Keys in an organization also draw on its shared quota
+  const organization = apiKey.organizationId
+    ? await getOrganization(apiKey.organizationId)
+    : null
+  const rateLimitResult = await checkRateLimit(
+    apiKeyValue,
+    minuteLimit,
+    limits.perDay,
+    {
+      algorithm: tier?.algorithm,
+      burst: tier
+        ? {
+            ratePerSecond: tier.rateLimit * burstFactor,
+            burstLimit: Math.max(1, Math.floor(tier.burstLimit * burstFactor)),
+          }
+        : undefined,
+      cost,
+      month:
+        limits.perMonth > 0
+          ? { limit: limits.perMonth, anchorDay: apiKey.billingAnchorDay }
+          : undefined,
+      organization: organization
+        ? {
+            id: organization.id,
+            perMinute: organization.perMinute,
+            perDay: organization.perDay,
+            month:
+              organization.perMonth > 0
+                ? { limit: organization.perMonth, anchorDay: organization.billingAnchorDay }
+                : undefined,
+          }
+        : undefined,
+      // Shadow mode never blocks, so there is nothing to wait out
+      maxDelayMs: shadowMode ? 0 : tier?.maxDelayMs,
+      timeZone,
+    }
+  )
+
+  // Includes any time spent waiting for a slot in delay mode
+  const latencyMs = Date.now() - startTime
+  const delayMs = rateLimitResult.delayMs
+
+  const monthLimit = limits.perMonth > 0 ? limits.perMonth : null
+  const usage: QuotaUsage = {
+    minuteCount: rateLimitResult.minuteCount,
+    dayCount: rateLimitResult.dayCount,
+    monthCount: rateLimitResult.monthCount,
+    minuteLimit,
+    dayLimit: limits.perDay,
+    monthLimit,
+    resetAfter: Math.ceil(rateLimitResult.resetAfterMs / 1000),
+    dayResetAt: formatInTimeZone(getDayEnd(new Date(), timeZone), timeZone),
+    monthResetAt: monthLimit
+      ? formatInTimeZone(getBillingPeriodEnd(new Date(), apiKey.billingAnchorDay, timeZone), timeZone)
+      : null,
+  }
+
+  if (rateLimitResult.isOverLimit) {
+    const reason =
+      rateLimitResult.limitedBy === "burst"
+        ? "Burst limit exceeded"
+        : rateLimitResult.limitedScope === "organization"
+        ? "Organization quota exceeded"
+        : rateLimitResult.limitedBy === "month"
+        ? "Monthly quota exceeded"
+        : "Rate limit exceeded"
+
+    if (shadowMode) {
+      wouldBlockReason = wouldBlockReason ?? reason
+    } else {
+      // The lease and policies only let the request through for the key's limits to turn it away
+      await release()
+      await refundEndpointPolicies(policyCheck.charged, cost)
+      await addEvent({
+        timestamp: new Date().toISOString(),
+        apiKey: apiKeyValue,
+        endpoint,
+        status: 429,
+        reason,
+        latencyMs,
+        delayMs,
+        cost,
+      })
+      await recordStrike(apiKeyValue, apiKey.id)
+
+      // Seconds until the limit that was hit frees up (bucket refill, GCRA slot or window reset)
+      const retryAfter = Math.max(1, Math.ceil(rateLimitResult.retryAfterMs / 1000))
+
+      return {
+        allowed: false,
+        reason,
+        retryAfter,
+        usage,
+      }
+    }
+  }
+
+  const { warnings, crossed } = getQuotaWarnings(
+    tier?.warningThresholds ?? [],
+    [
+      { window: "minute", used: rateLimitResult.minuteCount, limit: minuteLimit },
+      { window: "day", used: rateLimitResult.dayCount, limit: limits.perDay },
+      { window: "month", used: rateLimitResult.monthCount, limit: monthLimit },
+    ],
+    cost
+  )
+
+  // Warn once per threshold, on the request that crosses it
+  for (const warning of crossed) {
+    await addEvent({
+      type: "quota_warning",
+      timestamp: new Date().toISOString(),
+      apiKey: apiKeyValue,
+      endpoint,
+      status: 200,
+      reason: `${warning.threshold}% of ${warning.window} quota used (${warning.used}/${warning.limit})`,
+      cost: 0,
+    })
+  }
+
+  // Request allowed
+  await addEvent({
+    timestamp: new Date().toISOString(),
+    apiKey: apiKeyValue,
+    endpoint,
+    status: 200,
+    reason: wouldBlockReason ? `Shadow: ${wouldBlockReason}` : "Allowed",
+    latencyMs,
+    delayMs,
+    cost,
+    wouldBlock: wouldBlockReason !== null,
+  })
+
+  // Update last seen
+  await updateLastSeen(apiKeyValue)
+
+  return {
+    allowed: true,
+    ...usage,
+    cost,
+    warnings,
+    release,
+    recordLatency,
+  }
+}
+
+/**
+ * Sample a handler's latency while adaptive limits are on
+ * The response is already settled, so a failed write is only logged.
+ */
+async function recordLatency(latencyMs: number): Promise<void> {
+  try {
+    const { targetP95Ms } = await getAdaptiveLimitsConfig()
+    if (targetP95Ms > 0) {
+      await recordHandlerLatency(latencyMs)
+    }
+  } catch (err) {
+    console.error("Failed to record handler latency:", err)
+  }
+}
+
+// Billing periods vary in length; RateLimit-Policy reports the nominal 30 days
+const MONTH_WINDOW_SECONDS = 30 * 24 * 60 * 60
+
+/**
+ * Describe the key's windows for the rate limit headers
+ */
+function getQuotaWindows(usage: QuotaUsage): RateLimitWindow[] {
+  const now = Date.now()
+  const secondsUntil = (resetAt: string) =>
+    Math.max(0, Math.ceil((Date.parse(resetAt) - now) / 1000))
+
+  const windows: RateLimitWindow[] = [
+    {
+      window: "minute",
+      limit: usage.minuteLimit,
+      remaining: Math.max(0, usage.minuteLimit - usage.minuteCount),
+      windowSeconds: 60,
+      resetAfter: usage.resetAfter,
+      resetAt: formatInTimeZone(new Date(now + usage.resetAfter * 1000)),
+    },
+    {
+      window: "day",
+      limit: usage.dayLimit,
+      remaining: Math.max(0, usage.dayLimit - usage.dayCount),
+      windowSeconds: 24 * 60 * 60,
+      resetAfter: secondsUntil(usage.dayResetAt),
+      resetAt: usage.dayResetAt,
+    },
+  ]
+  if (usage.monthLimit !== null && usage.monthResetAt !== null) {
+    windows.push({
+      window: "month",
+      limit: usage.monthLimit,
+      remaining: Math.max(0, usage.monthLimit - usage.monthCount),
+      windowSeconds: MONTH_WINDOW_SECONDS,
+      resetAfter: secondsUntil(usage.monthResetAt),
+      resetAt: usage.monthResetAt,
+    })
+  }
+  return windows
+}
+
+/**
+ * HTTP status for a rejected request, from its reason
+ */
+export function getBlockedStatus(reason: string): number {
+  return reason.includes("Missing") || reason.includes("Invalid")
+    ? 401
+    : reason.includes("disabled")
+    ? 403
+    : reason.includes("overloaded") || reason.includes("unavailable")
+    ? 503
+    : 429
+}
+
+/**
+ * Rate limit headers for a response, allowed or blocked
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Headers {
+  if (result.allowed) {
+    return buildRateLimitHeaders(getQuotaWindows(result), {
+      warning: result.warnings.length > 0 ? formatQuotaWarnings(result.warnings) : undefined,
+    })
+  }
+
+  // result.allowed === false, but narrowing needs strict null checks
+  const blocked = result as Extract<RateLimitResult, { allowed: false }>
+  // Clients are only asked to back off when waiting will help
+  const status = getBlockedStatus(blocked.reason)
+  return buildRateLimitHeaders(blocked.usage ? getQuotaWindows(blocked.usage) : [], {
+    retryAfter: status === 429 || status === 503 ? blocked.retryAfter : undefined,
+  })
+}
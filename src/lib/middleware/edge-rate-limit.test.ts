@@ -0,0 +1,90 @@
+import { once } from "node:events"
+import { NextRequest } from "next/server"
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest"
+
+vi.hoisted(() => {
+  process.env.REST_PROXY_PORT = "18080"
+  process.env.REDIS_REST_URL = "http://127.0.0.1:18080"
+  process.env.REDIS_REST_TOKEN = "test-token"
+  process.env.TRUSTED_PROXY_COUNT = "1"
+  process.env.EDGE_RATE_LIMIT_RULES = JSON.stringify([
+    { pattern: "/api/public/*", perMinute: 2 },
+    { pattern: "/api/keyed/*", perMinute: 1, by: "api-key" },
+  ])
+})
+
+import { env } from "@/lib/env"
+import { server } from "../../../scripts/rest-redis-proxy.mjs"
+import { edgeRateLimit } from "./edge-rate-limit"
+
+// The proxy stand-in forwards to the mocked ioredis
+vi.mock("ioredis", () => import("@/test/ioredis-mock"))
+
+function request(path: string, headers: Record<string, string> = {}) {
+  return new NextRequest(`http://localhost${path}`, {
+    headers: { "x-forwarded-for": "1.1.1.1", ...headers },
+  })
+}
+
+beforeAll(async () => {
+  vi.useFakeTimers({ toFake: ["Date"] })
+  vi.setSystemTime(new Date("2025-03-10T12:00:10Z"))
+  if (!server.listening) {
+    await once(server, "listening")
+  }
+})
+
+afterAll(() => {
+  server.close()
+  vi.useRealTimers()
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  env.REDIS_FAILURE_POLICY = "fail-closed"
+})
+
+describe("edge rate limits", () => {
+  it("counts matching requests by IP", async () => {
+    const responses = []
+    for (let i = 0; i < 3; i++) {
+      responses.push(await edgeRateLimit(request("/api/public/items")))
+    }
+
+    expect(responses.map((r) => r.status)).toEqual([200, 200, 429])
+    expect(responses[0].headers.get("x-middleware-next")).toBe("1")
+    expect(responses[2].headers.get("retry-after")).toBe("50")
+
+    const otherIp = await edgeRateLimit(request("/api/public/items", { "x-forwarded-for": "2.2.2.2" }))
+    expect(otherIp.status).toBe(200)
+  })
+
+  it("leaves paths without a rule alone", async () => {
+    const response = await edgeRateLimit(request("/api/private"))
+    expect(response.headers.get("x-middleware-next")).toBe("1")
+    expect(response.headers.get("ratelimit-policy")).toBeNull()
+  })
+
+  it("counts each raw x-api-key value separately", async () => {
+    const first = await edgeRateLimit(request("/api/keyed/items", { "x-api-key": "key_a" }))
+    const second = await edgeRateLimit(request("/api/keyed/items", { "x-api-key": "key_a" }))
+    // An unverified value starts its own count, which is why "api-key" rules need an "ip" rule beside them
+    const rotated = await edgeRateLimit(request("/api/keyed/items", { "x-api-key": "key_b" }))
+
+    expect([first.status, second.status, rotated.status]).toEqual([200, 429, 200])
+  })
+
+  it.each([
+    ["rejects the token", 401, { error: "Unauthorized" }],
+    ["fails", 502, { error: "Bad gateway" }],
+  ])("applies the failure policy when the REST endpoint %s", async (_, status, body) => {
+    vi.spyOn(globalThis, "fetch").mockImplementation(async () => Response.json(body, { status }))
+
+    const closed = await edgeRateLimit(request("/api/public/items", { "x-forwarded-for": "3.3.3.3" }))
+    expect(closed.status).toBe(503)
+
+    env.REDIS_FAILURE_POLICY = "fail-open"
+    const open = await edgeRateLimit(request("/api/public/items", { "x-forwarded-for": "3.3.3.3" }))
+    expect(open.headers.get("x-middleware-next")).toBe("1")
+  })
+})
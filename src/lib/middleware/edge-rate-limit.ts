@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from "next/server"
+import { edgeRuleSchema, type EdgeRule } from "@/lib/api/schemas"
+import { env } from "@/lib/env"
+import { getClientIp } from "@/lib/middleware/client-ip"
+import { applyHeaders, buildRateLimitHeaders, type RateLimitWindow } from "@/lib/middleware/headers"
+import { DAY_TTL_MS, MINUTE_TTL_MS, rateLimitScript } from "@/lib/redis/fixed-window"
+import { getDayEnd, getDayKey, getMinuteKey } from "@/lib/redis/keys"
+import { createRestStorage, RestStorageError } from "@/lib/storage/rest-storage"
+import type { StorageBackend } from "@/lib/storage/types"
+import { formatInTimeZone } from "@/lib/timezone"
+import { matchesEndpoint } from "@/lib/utils"
+
+/**
+ * Path-matched limits applied by the root middleware, before any route code runs
+ *
+ * This runs on the edge runtime, so counters go through the REST storage
+ * backend and nothing here may load the Redis client. Requests are counted by
+ * client IP, or by the raw x-api-key value since keys cannot be verified at
+ * the edge, in the same fixed windows the rate limiter uses. Edge limits stack
+ * with whatever the route enforces itself, and are not recorded as events.
+ *
+ * An "api-key" rule is only as strong as the header: a client can send a new
+ * made-up key with every request and start a fresh count each time. Use it to
+ * share a limit fairly between real keys, and pair it with an "ip" rule (or
+ * the route's own limits, which verify the key) to stop abuse.
+ */
+
+let rules: EdgeRule[] | null = null
+let restStorage: StorageBackend | null = null
+
+/**
+ * Rules from EDGE_RATE_LIMIT_RULES, parsed once; an invalid list is logged and ignored
+ */
+function getEdgeRules(): EdgeRule[] {
+  if (rules !== null) {
+    return rules
+  }
+
+  rules = []
+  if (!env.EDGE_RATE_LIMIT_RULES) {
+    return rules
+  }
+  try {
+    const parsed = edgeRuleSchema.array().safeParse(JSON.parse(env.EDGE_RATE_LIMIT_RULES))
+    if (parsed.success) {
+      rules = parsed.data
+      console.log(`🛡️ Loaded ${rules.length} edge rate limit rules`)
+    } else {
+      console.error("Invalid EDGE_RATE_LIMIT_RULES:", JSON.stringify(parsed.error.issues))
+    }
+  } catch (err) {
+    console.error("EDGE_RATE_LIMIT_RULES is not valid JSON:", err)
+  }
+  return rules
+}
+
+function getRestStorage(): StorageBackend | null {
+  if (!restStorage && env.REDIS_REST_URL) {
+    restStorage = createRestStorage(env.REDIS_REST_URL, env.REDIS_REST_TOKEN)
+  }
+  return restStorage
+}
+
+/**
+ * First rule matching the request path and method
+ */
+export function findEdgeRule(pathname: string, method: string): EdgeRule | undefined {
+  return getEdgeRules().find(
+    (rule) =>
+      matchesEndpoint(rule.pattern, pathname) &&
+      (!rule.method || rule.method === method.toUpperCase())
+  )
+}
+
+/**
+ * Counter scope for a rule and the client it is counting
+ */
+function getEdgeScope(request: NextRequest, rule: EdgeRule): string {
+  const apiKey = rule.by === "api-key" ? request.headers.get("x-api-key") : null
+  // Requests without a key fall back to being counted by IP
+  const client = apiKey ? `key:${apiKey}` : `ip:${getClientIp(request)}`
+  return `edge:${rule.method ?? "*"}:${rule.pattern}:${client}`
+}
+
+/**
+ * Apply the first matching edge rule to a request
+ * Passes the request on untouched when no rule matches
+ */
+export async function edgeRateLimit(request: NextRequest): Promise<NextResponse> {
+  const rule = findEdgeRule(request.nextUrl.pathname, request.method)
+  if (!rule) {
+    return NextResponse.next()
+  }
+
+  const storage = getRestStorage()
+  if (!storage) {
+    console.warn("EDGE_RATE_LIMIT_RULES is set without REDIS_REST_URL, skipping edge limits")
+    return NextResponse.next()
+  }
+
+  const scope = getEdgeScope(request, rule)
+  const now = new Date()
+  const perDay = rule.perDay ?? Number.MAX_SAFE_INTEGER
+
+  let result: [number, number, number, number]
+  try {
+    result = await storage.runScript(
+      rateLimitScript,
+      [getMinuteKey(scope, now), getDayKey(scope, now)],
+      [
+        MINUTE_TTL_MS.toString(),
+        DAY_TTL_MS.toString(),
+        rule.perMinute.toString(),
+        perDay.toString(),
+        "1",
+      ]
+    )
+  } catch (err) {
+    if (!(err instanceof RestStorageError)) {
+      throw err
+    }
+    console.error("Edge rate limit check failed:", err)
+
+    // There are no local counters at the edge, so "local" lets requests through like "fail-open"
+    if (env.REDIS_FAILURE_POLICY !== "fail-closed") {
+      return NextResponse.next()
+    }
+    const retryAfter = Math.ceil(env.REDIS_BREAKER_COOLDOWN_MS / 1000)
+    return NextResponse.json(
+      { error: "Rate limiter unavailable", retryAfter },
+      { status: 503, headers: buildRateLimitHeaders([], { retryAfter }) }
+    )
+  }
+
+  const [minuteCount, dayCount, over] = result
+  const minuteResetAfter = Math.ceil((60 * 1000 - (now.getTime() % (60 * 1000))) / 1000)
+  const windows: RateLimitWindow[] = [
+    {
+      window: "minute",
+      limit: rule.perMinute,
+      remaining: Math.max(0, rule.perMinute - minuteCount),
+      windowSeconds: 60,
+      resetAfter: minuteResetAfter,
+      resetAt: formatInTimeZone(new Date(now.getTime() + minuteResetAfter * 1000)),
+    },
+  ]
+  if (rule.perDay !== null) {
+    const dayEnd = getDayEnd(now)
+    windows.push({
+      window: "day",
+      limit: rule.perDay,
+      remaining: Math.max(0, rule.perDay - dayCount),
+      windowSeconds: 24 * 60 * 60,
+      resetAfter: Math.ceil((dayEnd.getTime() - now.getTime()) / 1000),
+      resetAt: formatInTimeZone(dayEnd),
+    })
+  }
+
+  if (over > 0) {
+    // over is 1 for the minute window and 2 for the day window
+    const retryAfter = Math.max(1, windows[over - 1].resetAfter)
+    return NextResponse.json(
+      { error: "Rate limit exceeded", retryAfter },
+      { status: 429, headers: buildRateLimitHeaders(windows, { retryAfter }) }
+    )
+  }
+
+  const response = NextResponse.next()
+  applyHeaders(response, buildRateLimitHeaders(windows))
+  return response
+}
@@ -0,0 +1,91 @@
+import { env } from "@/lib/env"
+
+export type RateLimitHeaderFormat = "legacy" | "ietf" | "both"
+
+export type RateLimitWindow = {
+  window: "minute" | "day" | "month"
+  limit: number
+  remaining: number
+  windowSeconds: number // nominal length of the window
+  resetAfter: number // seconds until the window resets
+  resetAt: string // when the window resets, ISO 8601 (local time for day and month)
+}
+
+export type RateLimitHeaderOptions = {
+  format?: RateLimitHeaderFormat // defaults to RATE_LIMIT_HEADERS
+  retryAfter?: number // seconds, for responses that ask the client to back off
+  warning?: string // formatted quota warnings
+}
+
+const WINDOW_NAMES = {
+  minute: "Minute",
+  day: "Day",
+  month: "Month",
+} as const
+
+/**
+ * Legacy per-window headers, e.g. X-RateLimit-Remaining-Day
+ */
+function setLegacyHeaders(headers: Headers, windows: RateLimitWindow[]): void {
+  for (const w of windows) {
+    const name = WINDOW_NAMES[w.window]
+    headers.set(`X-RateLimit-Limit-${name}`, w.limit.toString())
+    headers.set(`X-RateLimit-Remaining-${name}`, w.remaining.toString())
+    headers.set(`X-RateLimit-Reset-${name}`, w.resetAt)
+  }
+}
+
+/**
+ * IETF draft RateLimit-Policy and RateLimit headers (draft-ietf-httpapi-ratelimit-headers),
+ * with one named policy per window, e.g.
+ *   RateLimit-Policy: "minute";q=60;w=60, "day";q=5000;w=86400
+ *   RateLimit: "minute";r=42;t=18, "day";r=4810;t=40213
+ */
+function setIetfHeaders(headers: Headers, windows: RateLimitWindow[]): void {
+  if (windows.length === 0) {
+    return
+  }
+  headers.set(
+    "RateLimit-Policy",
+    windows.map((w) => `"${w.window}";q=${w.limit};w=${w.windowSeconds}`).join(", ")
+  )
+  headers.set(
+    "RateLimit",
+    windows.map((w) => `"${w.window}";r=${w.remaining};t=${w.resetAfter}`).join(", ")
+  )
+}
+
+/**
+ * Build the rate limit headers for a response in the configured format
+ */
+export function buildRateLimitHeaders(
+  windows: RateLimitWindow[],
+  options: RateLimitHeaderOptions = {}
+): Headers {
+  const format = options.format ?? env.RATE_LIMIT_HEADERS
+  const headers = new Headers()
+
+  if (format === "legacy" || format === "both") {
+    setLegacyHeaders(headers, windows)
+  }
+  if (format === "ietf" || format === "both") {
+    setIetfHeaders(headers, windows)
+  }
+  if (options.warning) {
+    headers.set("X-RateLimit-Warning", options.warning)
+  }
+  if (options.retryAfter !== undefined) {
+    headers.set("Retry-After", options.retryAfter.toString())
+  }
+
+  return headers
+}
+
+/**
+ * Copy rate limit headers onto a response
+ */
+export function applyHeaders(response: Response, headers: Headers): void {
+  headers.forEach((value, key) => {
+    response.headers.set(key, value)
+  })
+}
@@ -0,0 +1,114 @@
+import { env } from "@/lib/env"
+import { getDayKey, getMinuteKey } from "@/lib/redis/keys"
+import { msUntilWindowEnd } from "@/lib/redis/rate-limiter"
+
+/**
+ * In-process fixed-window limiter for when Redis is unavailable
+ * Counts are per instance, so each one enforces an even share of the key's
+ * limits across the assumed number of instances
+ */
+
+type Counter = {
+  count: number
+  expiresAt: number
+}
+
+// Expired windows are swept once the map grows past this many entries
+const SWEEP_THRESHOLD = 10000
+
+const counters = new Map<string, Counter>()
+
+export type LocalRateLimitResult = {
+  isOverLimit: boolean
+  minuteCount: number
+  dayCount: number
+  minuteLimit: number
+  dayLimit: number
+  retryAfterMs: number
+}
+
+function sweepExpired(now: number): void {
+  const entries = Array.from(counters.entries())
+  for (const [key, counter] of entries) {
+    if (counter.expiresAt <= now) {
+      counters.delete(key)
+    }
+  }
+}
+
+function currentCount(key: string, now: number): number {
+  const counter = counters.get(key)
+  return counter && counter.expiresAt > now ? counter.count : 0
+}
+
+/**
+ * This instance's share of a limit, never less than 1
+ */
+export function getLocalShare(limit: number): number {
+  return Math.max(1, Math.floor(limit / Math.max(1, env.ASSUMED_INSTANCE_COUNT)))
+}
+
+/**
+ * Check and count a request against this instance's share of the minute and day limits
+ */
+export function checkLocalRateLimit(
+  apiKey: string,
+  perMinute: number,
+  perDay: number,
+  cost: number = 1,
+  timeZone?: string
+): LocalRateLimitResult {
+  const now = new Date()
+  const nowMs = now.getTime()
+
+  if (counters.size > SWEEP_THRESHOLD) {
+    sweepExpired(nowMs)
+  }
+
+  const minuteKey = getMinuteKey(apiKey, now)
+  const dayKey = getDayKey(apiKey, now, timeZone)
+  const minuteLimit = getLocalShare(perMinute)
+  const dayLimit = getLocalShare(perDay)
+  const minuteCount = currentCount(minuteKey, nowMs)
+  const dayCount = currentCount(dayKey, nowMs)
+
+  // Blocked requests are not counted against the share
+  if (dayCount + cost > dayLimit) {
+    return {
+      isOverLimit: true,
+      minuteCount,
+      dayCount,
+      minuteLimit,
+      dayLimit,
+      retryAfterMs: msUntilWindowEnd("day", now, 1, timeZone),
+    }
+  }
+  if (minuteCount + cost > minuteLimit) {
+    return {
+      isOverLimit: true,
+      minuteCount,
+      dayCount,
+      minuteLimit,
+      dayLimit,
+      retryAfterMs: msUntilWindowEnd("minute", now),
+    }
+  }
+
+  counters.set(minuteKey, {
+    count: minuteCount + cost,
+    expiresAt: nowMs + msUntilWindowEnd("minute", now),
+  })
+  counters.set(dayKey, {
+    count: dayCount + cost,
+    expiresAt: nowMs + msUntilWindowEnd("day", now, 1, timeZone),
+  })
+
+  return {
+    isOverLimit: false,
+    minuteCount: minuteCount + cost,
+    dayCount: dayCount + cost,
+    minuteLimit,
+    dayLimit,
+    retryAfterMs: 0,
+  }
+}
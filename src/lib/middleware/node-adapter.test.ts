@@ -0,0 +1,60 @@
+import { once } from "node:events"
+import { createServer } from "node:http"
+import type { AddressInfo } from "node:net"
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest"
+
+vi.hoisted(() => {
+  process.env.STORAGE_BACKEND = "memory"
+  process.env.TRUSTED_PROXY_COUNT = "1"
+  process.env.IP_RATE_PER_MINUTE = "2"
+})
+
+import { env } from "@/lib/env"
+import { withNodeRateLimit } from "./node-adapter"
+
+const server = createServer(
+  withNodeRateLimit(async (_req, res) => {
+    res.end("ok")
+  })
+)
+let url: string
+
+async function statuses(headers: Record<string, string>[]) {
+  const result = []
+  for (const h of headers) {
+    result.push((await fetch(`${url}/api/items`, { headers: h })).status)
+  }
+  return result
+}
+
+beforeAll(async () => {
+  vi.useFakeTimers({ toFake: ["Date"] })
+  server.listen(0, "127.0.0.1")
+  await once(server, "listening")
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(() => {
+  server.close()
+  vi.useRealTimers()
+})
+
+afterEach(() => {
+  env.TRUSTED_PROXY_COUNT = 1
+})
+
+describe("node adapter", () => {
+  it("throttles a client that sends no forwarding headers by its connection", async () => {
+    vi.setSystemTime(new Date("2025-03-10T12:00:10Z"))
+
+    expect(await statuses([{}, {}, {}])).toEqual([401, 401, 429])
+  })
+
+  it("ignores x-forwarded-for without a trusted proxy", async () => {
+    vi.setSystemTime(new Date("2025-03-10T12:01:10Z"))
+    env.TRUSTED_PROXY_COUNT = 0
+
+    const spoofed = ["1.1.1.1", "2.2.2.2", "3.3.3.3"].map((ip) => ({ "x-forwarded-for": ip }))
+    expect(await statuses(spoofed)).toEqual([401, 401, 429])
+  })
+})
@@ -0,0 +1,193 @@
+import type { IncomingMessage, ServerResponse } from "node:http"
+import { resolveClientIp } from "@/lib/middleware/client-ip"
+import {
+  decide,
+  getBlockedStatus,
+  getRateLimitHeaders,
+  type LimitPolicy,
+  type RateLimitContext,
+  type RateLimitResult,
+} from "@/lib/middleware/decide"
+
+/**
+ * Rate limiting for Node services outside Next.js, as Express-style
+ * (req, res, next) middleware or around a plain node:http request listener
+ *
+ * Both go through the same decide() as the Next.js routes, so a key's requests
+ * are counted against the same Redis counters and logged as the same events
+ * whichever service they hit. Nothing here depends on Express itself; its
+ * request and response objects extend the node:http ones.
+ */
+
+export type NodeRateLimitOptions = LimitPolicy & {
+  endpoint?: string // name the request is counted and logged under, defaults to the request path
+  // Reads the API key from the request, defaults to the x-api-key header
+  getApiKey?: (req: IncomingMessage) => string | null
+}
+
+export type NextFunction = (err?: unknown) => void
+
+export type NodeRateLimitedHandler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  rateLimit: RateLimitContext
+) => void | Promise<void>
+
+function getHeader(req: IncomingMessage, name: string): string | null {
+  const value = req.headers[name]
+  return (Array.isArray(value) ? value[0] : value) ?? null
+}
+
+export function getNodeApiKeyFromHeader(req: IncomingMessage): string | null {
+  return getHeader(req, "x-api-key")
+}
+
+/**
+ * Request path without the query string
+ * Express strips the mount path from req.url, so its originalUrl is preferred.
+ */
+function getPathname(req: IncomingMessage): string {
+  const url = (req as IncomingMessage & { originalUrl?: string }).originalUrl ?? req.url ?? "/"
+  return new URL(url, "http://localhost").pathname
+}
+
+/**
+ * Address of the peer the request came in on, with IPv4-mapped IPv6 addresses
+ * written as plain IPv4 to match x-forwarded-for entries
+ */
+function getRemoteAddress(req: IncomingMessage): string | null {
+  return req.socket?.remoteAddress?.replace(/^::ffff:/, "") ?? null
+}
+
+/**
+ * Count a node:http request against the limiter
+ */
+async function decideNodeRequest(
+  req: IncomingMessage,
+  apiKey: string | null,
+  options: NodeRateLimitOptions
+): Promise<RateLimitResult> {
+  return decide(
+    {
+      apiKey,
+      ip: resolveClientIp(
+        getHeader(req, "x-forwarded-for"),
+        getHeader(req, "x-real-ip"),
+        getRemoteAddress(req)
+      ),
+      endpoint: options.endpoint ?? getPathname(req),
+      method: req.method ?? "GET",
+    },
+    options
+  )
+}
+
+function setRateLimitHeaders(res: ServerResponse, result: RateLimitResult): void {
+  getRateLimitHeaders(result).forEach((value, key) => res.setHeader(key, value))
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status
+  res.setHeader("content-type", "application/json")
+  res.end(JSON.stringify(body))
+}
+
+/**
+ * Send the limiter's error response for a rejected request
+ */
+function sendRateLimited(res: ServerResponse, result: RateLimitResult): void {
+  const blocked = result as Extract<RateLimitResult, { allowed: false }>
+  setRateLimitHeaders(res, result)
+  sendJson(res, getBlockedStatus(blocked.reason), {
+    error: blocked.reason,
+    retryAfter: blocked.retryAfter,
+  })
+}
+
+/**
+ * Free the request's concurrency slot and report the handler's latency once the
+ * response is finished or the client goes away, since a handler may keep
+ * writing after it returns
+ */
+function finishOnClose(res: ServerResponse, decision: RateLimitContext["decision"]): void {
+  const handlerStart = Date.now()
+  res.once("close", () => {
+    decision.release().catch((err) => console.error("Failed to release concurrency slot:", err))
+    void decision.recordLatency(Date.now() - handlerStart)
+  })
+}
+
+/**
+ * Express-style middleware
+ * Rejected requests get the limiter's error response; allowed ones get the
+ * rate limit headers and the decision on req.rateLimit before next() is called.
+ * Errors are passed to next() for the app's error handler.
+ *
+ *   app.use("/api", expressRateLimit({ cost: 2 }))
+ */
+export function expressRateLimit(options: NodeRateLimitOptions = {}) {
+  const getApiKey = options.getApiKey ?? getNodeApiKeyFromHeader
+
+  return (
+    req: IncomingMessage & { rateLimit?: RateLimitContext },
+    res: ServerResponse,
+    next: NextFunction
+  ): void => {
+    const apiKey = getApiKey(req)
+
+    decideNodeRequest(req, apiKey, options).then((result) => {
+      if (!result.allowed) {
+        sendRateLimited(res, result)
+        return
+      }
+
+      const decision = result as RateLimitContext["decision"]
+      setRateLimitHeaders(res, decision)
+      finishOnClose(res, decision)
+      req.rateLimit = { apiKey, decision }
+      next()
+    }, next)
+  }
+}
+
+/**
+ * Protect a plain node:http request listener with the rate limiter
+ * Works like withRateLimit for Next.js routes: rejected requests never reach
+ * the handler, and allowed ones get the rate limit headers before it runs.
+ *
+ *   http.createServer(withNodeRateLimit(async (req, res, { apiKey }) => ...)).listen(3001)
+ */
+export function withNodeRateLimit(
+  handler: NodeRateLimitedHandler,
+  options: NodeRateLimitOptions = {}
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  const getApiKey = options.getApiKey ?? getNodeApiKeyFromHeader
+
+  return async (req, res) => {
+    try {
+      // Read the key once, so the handler sees the same one the limiter counted
+      const apiKey = getApiKey(req)
+      const result = await decideNodeRequest(req, apiKey, options)
+
+      if (!result.allowed) {
+        sendRateLimited(res, result)
+        return
+      }
+
+      const decision = result as RateLimitContext["decision"]
+      setRateLimitHeaders(res, decision)
+      finishOnClose(res, decision)
+      await handler(req, res, { apiKey, decision })
+    } catch (error) {
+      console.error(`Error in ${req.method} ${req.url}:`, error)
+      if (res.headersSent) {
+        res.destroy()
+        return
+      }
+      sendJson(res, 500, {
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server"
+import {
+  applyRateLimitHeaders,
+  createRateLimitedResponse,
+  getApiKeyFromHeader,
+  rateLimitMiddleware,
+  type RateLimitMiddlewareOptions,
+} from "./rate-limit"
+import type { RateLimitContext } from "./decide"
+
+export type { RateLimitContext } from "./decide"
+
+export type WithRateLimitOptions = RateLimitMiddlewareOptions & {
+  endpoint?: string // name the request is counted and logged under, defaults to the request path
+}
+
+export type RateLimitedHandler<C> = (
+  request: NextRequest,
+  rateLimit: RateLimitContext,
+  context: C
+) => Response | Promise<Response>
+
+/**
+ * Protect a route handler with the rate limiter
+ * Rejected requests get the limiter's error response and never reach the
+ * handler; allowed responses get the rate limit headers, and the request's
+ * concurrency slot is freed once the handler is done.
+ *
+ *   export const GET = withRateLimit(async (request, { apiKey }) => ..., { cost: 2 })
+ */
+export function withRateLimit<C = unknown>(
+  handler: RateLimitedHandler<C>,
+  options: WithRateLimitOptions = {}
+): (request: NextRequest, context: C) => Promise<Response> {
+  const getApiKey = options.getApiKey ?? getApiKeyFromHeader
+
+  return async (request, context) => {
+    const endpoint = options.endpoint ?? request.nextUrl.pathname
+
+    try {
+      // Read the key once, so the handler sees the same one the limiter counted
+      const apiKey = getApiKey(request)
+      const result = await rateLimitMiddleware(request, endpoint, {
+        ...options,
+        getApiKey: () => apiKey,
+      })
+
+      const errorResponse = createRateLimitedResponse(result)
+      if (errorResponse) {
+        return errorResponse
+      }
+
+      const decision = result as RateLimitContext["decision"]
+      const handlerStart = Date.now()
+      try {
+        const response = await handler(request, { apiKey, decision }, context)
+        applyRateLimitHeaders(response, decision)
+        return response
+      } finally {
+        // Free the concurrency slot held for this request and report how long the handler took
+        await decision.release()
+        await decision.recordLatency(Date.now() - handlerStart)
+      }
+    } catch (error) {
+      console.error(`Error in ${endpoint}:`, error)
+      return NextResponse.json(
+        {
+          error: "Internal server error",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        { status: 500 }
+      )
+    }
+  }
+}
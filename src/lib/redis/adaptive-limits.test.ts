@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+vi.hoisted(() => {
+  process.env.STORAGE_BACKEND = "memory"
+})
+
+import { recordHandlerLatency, refreshAdaptiveFactor } from "./adaptive-limits"
+
+const config = { targetP95Ms: 200, minFactor: 0.2, decreaseFactor: 0.5, increaseStep: 0.1 }
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] })
+  vi.setSystemTime(new Date("2025-03-10T12:00:00Z"))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("adaptive factor", () => {
+  it("follows the recorded handler latency", async () => {
+    for (let i = 0; i < 20; i++) {
+      await recordHandlerLatency(i < 18 ? 50 : 900)
+    }
+
+    // The slowest 10% of handlers put p95 over target
+    const cut = await refreshAdaptiveFactor(config)
+    expect(cut.p95LatencyMs).toBe(900)
+    expect(cut.factor).toBe(0.5)
+
+    // Samples older than the window no longer count, so the factor recovers
+    vi.setSystemTime(new Date("2025-03-10T12:01:30Z"))
+    await recordHandlerLatency(50)
+    const restored = await refreshAdaptiveFactor(config)
+    expect(restored.p95LatencyMs).toBe(50)
+    expect(restored.factor).toBe(0.6)
+  })
+})
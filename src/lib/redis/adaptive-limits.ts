@@ -0,0 +1,128 @@
+import type { AdaptiveLimitsConfig } from "@/lib/db/settings"
+import { getStorage } from "@/lib/storage"
+import { getAdaptiveLatencyKey, getAdaptiveLockKey, getAdaptiveStateKey } from "./keys"
+
+// Latency is sampled over this trailing window
+const SAMPLE_WINDOW_MS = 60 * 1000
+// Most recent handler latencies kept for the p95
+const LATENCY_SAMPLE_LIMIT = 1000
+// One instance adjusts the factor per interval; the rest reuse its result
+const ADJUST_INTERVAL_MS = 10 * 1000
+// Read on every request, so keep a short-lived copy in memory
+const STATE_CACHE_TTL_MS = 1000
+
+export type AdaptiveState = {
+  factor: number // share of the configured limits currently granted, 0-1
+  p95LatencyMs: number // rolling p95 the factor was last adjusted on
+  updatedAt: string | null
+}
+
+let cached: AdaptiveState | null = null
+let cachedAt = 0
+
+/**
+ * Record how long a request's handler took to respond
+ * The limiter's own time is not part of it, so only a slow backend moves the p95.
+ */
+export async function recordHandlerLatency(latencyMs: number): Promise<void> {
+  const storage = getStorage()
+  await storage.xadd(
+    getAdaptiveLatencyKey(),
+    { latencyMs: Math.round(latencyMs).toString(), timestamp: new Date().toISOString() },
+    LATENCY_SAMPLE_LIMIT
+  )
+}
+
+/**
+ * p95 of handler latency over the sample window
+ */
+async function getRollingP95Latency(): Promise<number> {
+  const storage = getStorage()
+
+  const since = Date.now() - SAMPLE_WINDOW_MS
+  const latencies = (await storage.xrevrange(getAdaptiveLatencyKey(), LATENCY_SAMPLE_LIMIT))
+    .filter(({ fields }) => new Date(fields.timestamp).getTime() >= since)
+    .map(({ fields }) => parseInt(fields.latencyMs, 10))
+    .sort((a, b) => a - b)
+
+  if (latencies.length === 0) {
+    return 0
+  }
+  return latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * 0.95))]
+}
+
+/**
+ * Read the current adjustment factor without changing it
+ */
+export async function getAdaptiveState(): Promise<AdaptiveState> {
+  const storage = getStorage()
+  const data = await storage.hgetall(getAdaptiveStateKey())
+
+  if (!data || Object.keys(data).length === 0) {
+    return { factor: 1, p95LatencyMs: 0, updatedAt: null }
+  }
+
+  return {
+    factor: parseFloat(data.factor || "1"),
+    p95LatencyMs: parseInt(data.p95LatencyMs || "0", 10),
+    updatedAt: data.updatedAt || null,
+  }
+}
+
+/**
+ * Get the adjustment factor, moving it one AIMD step first when the interval
+ * has passed: cut multiplicatively while p95 is over target, then restore
+ * additively once it recovers
+ */
+export async function refreshAdaptiveFactor(config: AdaptiveLimitsConfig): Promise<AdaptiveState> {
+  if (cached && Date.now() - cachedAt < STATE_CACHE_TTL_MS) {
+    return cached
+  }
+
+  const storage = getStorage()
+  const state = await getAdaptiveState()
+
+  // Whoever takes the lock makes this interval's adjustment
+  const acquired = await storage.set(getAdaptiveLockKey(), "1", {
+    ttlMs: ADJUST_INTERVAL_MS,
+    onlyIfAbsent: true,
+  })
+
+  if (acquired) {
+    const p95LatencyMs = await getRollingP95Latency()
+    const factor =
+      p95LatencyMs > config.targetP95Ms
+        ? Math.max(config.minFactor, state.factor * config.decreaseFactor)
+        : Math.min(1, state.factor + config.increaseStep)
+
+    if (factor !== state.factor) {
+      console.log(
+        `⚖️ Adaptive limits at ${Math.round(factor * 100)}% (p95 ${p95LatencyMs}ms, target ${config.targetP95Ms}ms)`
+      )
+    }
+
+    state.factor = Math.round(factor * 1000) / 1000
+    state.p95LatencyMs = p95LatencyMs
+    state.updatedAt = new Date().toISOString()
+    await storage.hset(getAdaptiveStateKey(), {
+      factor: state.factor.toString(),
+      p95LatencyMs: state.p95LatencyMs.toString(),
+      updatedAt: state.updatedAt,
+    })
+  }
+
+  cached = state
+  cachedAt = Date.now()
+  return state
+}
+
+/**
+ * Scale the factor by tier priority: the lowest-priority tier takes the full
+ * reduction and each tier above it a proportionally smaller share
+ */
+export function getTierFactor(factor: number, tierRank: number, tierCount: number): number {
+  if (factor >= 1 || tierRank < 0 || tierRank >= tierCount) {
+    return factor
+  }
+  return 1 - (1 - factor) * ((tierRank + 1) / tierCount)
+}
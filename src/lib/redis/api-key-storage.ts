@@ -1,4 +1,4 @@
-import { getRedisClient } from "./client"
+import { getStorage } from "@/lib/storage"
 
 const API_KEYS_SET = "api-keys:all" // Set of all API key IDs
 const API_KEY_PREFIX = "api-key:" // Prefix for individual key data
@@ -12,6 +12,11 @@ export type StoredApiKey = {
   tier: string
   perMinute: number
   perDay: number
+  perMonth: number
+  billingAnchorDay: number
+  organizationId: string | null
+  shadowMode: boolean
+  timeZone: string | null
   disabled: boolean
   createdAt: string
 }
@@ -20,10 +25,10 @@ export type StoredApiKey = {
  * Store an API key in Redis
  */
 export async function storeApiKey(key: StoredApiKey): Promise<void> {
-  const redis = getRedisClient()
+  const storage = getStorage()
   
   // Store the key data
-  await redis.hset(
+  await storage.hset(
     `${API_KEY_PREFIX}${key.id}`,
     {
       id: key.id,
@@ -34,21 +39,26 @@ export async function storeApiKey(key: StoredApiKey): Promise<void> {
       tier: key.tier,
       perMinute: key.perMinute.toString(),
       perDay: key.perDay.toString(),
+      perMonth: key.perMonth.toString(),
+      billingAnchorDay: key.billingAnchorDay.toString(),
+      organizationId: key.organizationId ?? "",
+      shadowMode: key.shadowMode ? "true" : "false",
+      timeZone: key.timeZone ?? "",
       disabled: key.disabled ? "1" : "0",
       createdAt: key.createdAt,
     }
   )
   
   // Add to the set of all keys
-  await redis.sadd(API_KEYS_SET, key.id)
+  await storage.sadd(API_KEYS_SET, key.id)
 }
 
 /**
  * Get an API key by ID from Redis
  */
 export async function getStoredApiKey(id: string): Promise<StoredApiKey | null> {
-  const redis = getRedisClient()
-  const data = await redis.hgetall(`${API_KEY_PREFIX}${id}`)
+  const storage = getStorage()
+  const data = await storage.hgetall(`${API_KEY_PREFIX}${id}`)
   
   if (!data || Object.keys(data).length === 0) {
     return null
@@ -63,6 +73,11 @@ export async function getStoredApiKey(id: string): Promise<StoredApiKey | null>
     tier: data.tier,
     perMinute: parseInt(data.perMinute),
     perDay: parseInt(data.perDay),
+    perMonth: parseInt(data.perMonth || "0"),
+    billingAnchorDay: parseInt(data.billingAnchorDay || "1"),
+    organizationId: data.organizationId || null,
+    shadowMode: data.shadowMode === "true",
+    timeZone: data.timeZone || null,
     disabled: data.disabled === "1",
     createdAt: data.createdAt,
   }
@@ -72,8 +87,8 @@ export async function getStoredApiKey(id: string): Promise<StoredApiKey | null>
  * Get all API keys from Redis
  */
 export async function getAllStoredApiKeys(): Promise<StoredApiKey[]> {
-  const redis = getRedisClient()
-  const keyIds = await redis.smembers(API_KEYS_SET)
+  const storage = getStorage()
+  const keyIds = await storage.smembers(API_KEYS_SET)
   
   if (keyIds.length === 0) {
     return []
@@ -97,7 +112,7 @@ export async function updateStoredApiKey(
   id: string,
   updates: Partial<StoredApiKey>
 ): Promise<void> {
-  const redis = getRedisClient()
+  const storage = getStorage()
   const key = await getStoredApiKey(id)
   
   if (!key) {
@@ -112,9 +127,9 @@ export async function updateStoredApiKey(
  * Delete an API key from Redis
  */
 export async function deleteStoredApiKey(id: string): Promise<void> {
-  const redis = getRedisClient()
-  await redis.del(`${API_KEY_PREFIX}${id}`)
-  await redis.srem(API_KEYS_SET, id)
+  const storage = getStorage()
+  await storage.del(`${API_KEY_PREFIX}${id}`)
+  await storage.srem(API_KEYS_SET, id)
 }
 
 /**
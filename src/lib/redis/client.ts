@@ -1,25 +1,132 @@
-import Redis from "ioredis"
+import Redis, { Cluster } from "ioredis"
 import { env } from "@/lib/env"
 
-let redisInstance: Redis | null = null
+// Cluster mode connects through a Cluster, which takes the same commands
+export type RedisClient = Redis | Cluster
 
-export function getRedisClient(): Redis {
-  if (!redisInstance) {
-    redisInstance = new Redis(env.REDIS_URL, {
-      maxRetriesPerRequest: 3,
-      retryStrategy(times) {
-        const delay = Math.min(times * 50, 2000)
-        return delay
+let redisInstance: RedisClient | null = null
+
+export type CircuitState = "closed" | "open" | "half-open"
+
+/**
+ * Thrown instead of waiting on Redis while the circuit is open or a connection fails
+ */
+export class RedisUnavailableError extends Error {
+  constructor(message = "Redis is unavailable") {
+    super(message)
+    this.name = "RedisUnavailableError"
+  }
+}
+
+/**
+ * Whether an error means Redis itself is unreachable, as opposed to a bug
+ * or bad input that should surface as a normal error
+ */
+export function isRedisUnavailable(err: unknown): boolean {
+  if (err instanceof RedisUnavailableError) {
+    return true
+  }
+  return env.STORAGE_BACKEND === "redis" && getRedisClient().status !== "ready"
+}
+
+let consecutiveFailures = 0
+let circuitOpenedAt: number | null = null
+
+/**
+ * Circuit breaker state: open after repeated failures, half-open once the
+ * cooldown has passed so the next request can try Redis again
+ */
+export function getCircuitState(): CircuitState {
+  if (circuitOpenedAt === null) {
+    return "closed"
+  }
+  return Date.now() - circuitOpenedAt >= env.REDIS_BREAKER_COOLDOWN_MS ? "half-open" : "open"
+}
+
+export function recordRedisSuccess(): void {
+  consecutiveFailures = 0
+  if (circuitOpenedAt !== null) {
+    circuitOpenedAt = null
+    console.log("Redis circuit closed")
+  }
+}
+
+export function recordRedisFailure(): void {
+  consecutiveFailures++
+  // A failed trial in half-open reopens the circuit straight away
+  if (getCircuitState() === "half-open" || consecutiveFailures >= env.REDIS_BREAKER_THRESHOLD) {
+    if (circuitOpenedAt === null) {
+      console.warn(`Redis circuit opened after ${consecutiveFailures} failures`)
+    }
+    circuitOpenedAt = Date.now()
+  }
+}
+
+/**
+ * Parse a comma-separated list of host:port pairs
+ */
+function parseNodes(list: string): { host: string; port: number }[] {
+  return list
+    .split(",")
+    .map((node) => node.trim())
+    .filter(Boolean)
+    .map((node) => {
+      const [host, port] = node.split(":")
+      return { host, port: parseInt(port ?? "6379", 10) }
+    })
+}
+
+function retryStrategy(times: number): number {
+  const delay = Math.min(times * 50, 2000)
+  return delay
+}
+
+/**
+ * Create a client for the connection mode set by REDIS_MODE
+ */
+function createRedisClient(): RedisClient {
+  const password = env.REDIS_PASSWORD || undefined
+
+  if (env.REDIS_MODE === "cluster") {
+    const nodes = parseNodes(env.REDIS_CLUSTER_NODES)
+    return new Cluster(nodes.length > 0 ? nodes : [env.REDIS_URL], {
+      clusterRetryStrategy: retryStrategy,
+      lazyConnect: true,
+      redisOptions: {
+        maxRetriesPerRequest: 3,
+        password,
       },
+    })
+  }
+
+  if (env.REDIS_MODE === "sentinel") {
+    return new Redis({
+      sentinels: parseNodes(env.REDIS_SENTINELS),
+      name: env.REDIS_SENTINEL_MASTER,
+      password,
+      maxRetriesPerRequest: 3,
+      retryStrategy,
       lazyConnect: true,
     })
+  }
+
+  return new Redis(env.REDIS_URL, {
+    maxRetriesPerRequest: 3,
+    retryStrategy,
+    lazyConnect: true,
+  })
+}
+
+export function getRedisClient(): RedisClient {
+  if (!redisInstance) {
+    redisInstance = createRedisClient()
 
     redisInstance.on("error", (err) => {
       console.error("Redis Client Error", err)
     })
 
     redisInstance.on("connect", () => {
-      console.log("Redis Client Connected")
+      console.log(`Redis Client Connected (${env.REDIS_MODE})`)
     })
   }
 
@@ -29,7 +136,29 @@ export function getRedisClient(): Redis {
 // Export redis instance for direct use
 export const redis = getRedisClient()
 
+/**
+ * Connect to Redis if needed, failing fast while the circuit is open
+ */
 export async function ensureRedisConnected(): Promise<void> {
+  // Nothing to connect to when running on the in-memory backend
+  if (env.STORAGE_BACKEND === "memory") {
+    return
+  }
+  if (getCircuitState() === "open") {
+    throw new RedisUnavailableError("Redis circuit is open")
+  }
+
+  try {
+    await connectRedis()
+  } catch (error) {
+    recordRedisFailure()
+    throw new RedisUnavailableError(
+      `Redis connection failed: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+async function connectRedis(): Promise<void> {
   const client = getRedisClient()
   if (client.status === "ready") {
     return // Already connected
@@ -44,7 +173,7 @@ export async function ensureRedisConnected(): Promise<void> {
   if (client.status === "end" || client.status === "close") {
     // Client was disconnected, create a new one
     redisInstance = null
-    return ensureRedisConnected()
+    return connectRedis()
   }
   // Connect if not connected
   try {
@@ -0,0 +1,83 @@
+import { nanoid } from "nanoid"
+import { getStorage } from "@/lib/storage"
+import { getInFlightKey } from "./keys"
+import { registerScript } from "./scripts"
+
+/**
+ * Lua script for acquiring a concurrency lease
+ * KEYS[1] = in-flight sorted set (member = lease ID, score = lease expiry)
+ * ARGV[1] = current time (milliseconds)
+ * ARGV[2] = lease expiry (milliseconds)
+ * ARGV[3] = max concurrent leases
+ * ARGV[4] = lease ID
+ *
+ * Expired leases (handlers that crashed before releasing) are dropped first.
+ *
+ * Returns: [acquired (1 or 0), inFlight]
+ */
+const acquireLeaseLuaScript = `
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+
+local inFlight = redis.call('ZCARD', KEYS[1])
+if inFlight >= tonumber(ARGV[3]) then
+  return {0, inFlight}
+end
+
+redis.call('ZADD', KEYS[1], ARGV[2], ARGV[4])
+redis.call('PEXPIRE', KEYS[1], tonumber(ARGV[2]) - tonumber(ARGV[1]))
+return {1, inFlight + 1}
+`
+
+const acquireLeaseScript = registerScript<[number, number]>({
+  name: "acquireLease",
+  lua: acquireLeaseLuaScript,
+  run(ctx, [inFlightKey], [now, expiry, maxLeases, leaseId]) {
+    ctx.zremrangebyscore(inFlightKey, -Infinity, Number(now))
+
+    const inFlight = ctx.zcard(inFlightKey)
+    if (inFlight >= Number(maxLeases)) {
+      return [0, inFlight]
+    }
+
+    ctx.zadd(inFlightKey, Number(expiry), leaseId)
+    ctx.pexpire(inFlightKey, Number(expiry) - Number(now))
+    return [1, inFlight + 1]
+  },
+})
+
+export type LeaseResult =
+  | { acquired: true; leaseId: string; inFlight: number }
+  | { acquired: false; inFlight: number }
+
+/**
+ * Try to take one of the key's concurrent request slots
+ */
+export async function acquireLease(
+  apiKey: string,
+  maxConcurrent: number,
+  leaseTtlMs: number
+): Promise<LeaseResult> {
+  const storage = getStorage()
+
+  const now = Date.now()
+  const leaseId = nanoid()
+
+  const result = await storage.runScript(
+    acquireLeaseScript,
+    [getInFlightKey(apiKey)],
+    [now.toString(), (now + leaseTtlMs).toString(), maxConcurrent.toString(), leaseId]
+  )
+
+  if (result[0] === 1) {
+    return { acquired: true, leaseId, inFlight: result[1] }
+  }
+  return { acquired: false, inFlight: result[1] }
+}
+
+/**
+ * Give a slot back once the handler has finished
+ */
+export async function releaseLease(apiKey: string, leaseId: string): Promise<void> {
+  const storage = getStorage()
+  await storage.zrem(getInFlightKey(apiKey), leaseId)
+}
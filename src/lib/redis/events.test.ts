@@ -0,0 +1,28 @@
+import { describe, expect, it, vi } from "vitest"
+
+vi.hoisted(() => {
+  process.env.STORAGE_BACKEND = "memory"
+})
+
+import { addEvent, getEventCount, getRecentEvents } from "./events"
+
+describe("addEvent", () => {
+  it("keeps quota warnings out of the global request count", async () => {
+    const event = {
+      timestamp: new Date().toISOString(),
+      apiKey: "key_a",
+      endpoint: "/api/data",
+      status: 200,
+    }
+    await addEvent(event)
+    await addEvent({ ...event, type: "quota_warning", reason: "80% of day quota used (80/100)" })
+    await addEvent({ ...event, status: 429 })
+
+    expect(await getEventCount()).toBe(2)
+    expect((await getRecentEvents("key_a")).map((e) => e.type)).toEqual([
+      "blocked",
+      "quota_warning",
+      "allowed",
+    ])
+  })
+})
@@ -1,60 +1,67 @@
-import { getRedisClient } from "./client"
+import { getStorage } from "@/lib/storage"
 import { getEventsStreamKey, getGlobalEventsStreamKey } from "./keys"
 
-export type EventType = "allowed" | "blocked"
+export type EventType = "allowed" | "blocked" | "quota_warning"
 
 export type RateLimitEvent = {
+  type?: EventType // derived from the status when not given
   timestamp: string
   apiKey: string
   endpoint: string
   status: number
   reason?: string
   latencyMs?: number
+  delayMs?: number // part of latencyMs spent waiting for a slot in delay mode
+  cost?: number // quota units charged for the request
+  wouldBlock?: boolean // allowed in shadow mode, but a limit would have blocked it
 }
 
 /**
  * Add an event to both the per-key stream and global stream
+ * Quota warnings go to the per-key stream only, so the global stream holds
+ * one entry per request and its length is the request total.
  */
 export async function addEvent(event: RateLimitEvent): Promise<void> {
-  const redis = getRedisClient()
+  const storage = getStorage()
 
   const eventData = {
+    type: event.type ?? (event.status === 200 ? "allowed" : "blocked"),
     timestamp: event.timestamp,
     apiKey: event.apiKey,
     endpoint: event.endpoint,
     status: event.status.toString(),
     reason: event.reason || "",
     latencyMs: event.latencyMs?.toString() || "0",
+    delayMs: event.delayMs?.toString() || "0",
+    cost: (event.cost ?? 1).toString(),
+    wouldBlock: event.wouldBlock ? "1" : "0",
   }
 
   // Add to per-key stream
   const keyStream = getEventsStreamKey(event.apiKey)
-  await redis.xadd(keyStream, "MAXLEN", "~", "1000", "*", ...Object.entries(eventData).flat())
+  await storage.xadd(keyStream, eventData, 1000)
+
+  if (eventData.type === "quota_warning") {
+    return
+  }
 
   // Add to global stream
   const globalStream = getGlobalEventsStreamKey()
-  await redis.xadd(
-    globalStream,
-    "MAXLEN",
-    "~",
-    "10000",
-    "*",
-    ...Object.entries(eventData).flat()
-  )
+  await storage.xadd(globalStream, eventData, 10000)
 }
 
 /**
  * Get the total count of events in a stream
  */
 export async function getEventCount(apiKey?: string): Promise<number> {
-  const redis = getRedisClient()
+  const storage = getStorage()
   
   const streamKey = apiKey
     ? getEventsStreamKey(apiKey)
     : getGlobalEventsStreamKey()
   
   try {
-    const length = await redis.xlen(streamKey)
+    const length = await storage.xlen(streamKey)
     return length
   } catch (error) {
     console.error("Error getting event count:", error)
@@ -69,28 +76,29 @@ export async function getRecentEvents(
   apiKey?: string,
   count: number = 100
 ): Promise<RateLimitEvent[]> {
-  const redis = getRedisClient()
+  const storage = getStorage()
 
   const streamKey = apiKey
     ? getEventsStreamKey(apiKey)
     : getGlobalEventsStreamKey()
 
   // XREVRANGE returns events in reverse chronological order
-  const events = await redis.xrevrange(streamKey, "+", "-", "COUNT", count)
+  const events = await storage.xrevrange(streamKey, count)
 
-  return events.map(([id, fields]) => {
-    const fieldMap = new Map<string, string>()
-    for (let i = 0; i < fields.length; i += 2) {
-      fieldMap.set(fields[i], fields[i + 1])
-    }
+  return events.map(({ fields }) => {
+    const fieldMap = new Map(Object.entries(fields))
 
     return {
+      type: (fieldMap.get("type") as EventType) || undefined,
       timestamp: fieldMap.get("timestamp") || "",
       apiKey: fieldMap.get("apiKey") || "",
       endpoint: fieldMap.get("endpoint") || "",
       status: parseInt(fieldMap.get("status") || "0", 10),
       reason: fieldMap.get("reason"),
       latencyMs: parseInt(fieldMap.get("latencyMs") || "0", 10),
+      delayMs: parseInt(fieldMap.get("delayMs") || "0", 10),
+      cost: parseInt(fieldMap.get("cost") || "1", 10),
+      wouldBlock: fieldMap.get("wouldBlock") === "1",
     }
   })
 }
@@ -0,0 +1,94 @@
+import { registerScript } from "@/lib/storage/script-registry"
+
+/**
+ * Fixed-window counting, shared by the rate limiter and the edge middleware
+ * Kept apart from the rest of the limiter so edge code can use it without
+ * loading the Redis client.
+ */
+
+// TTLs: 90 seconds for minute window, 25 hours for day window
+export const MINUTE_TTL_MS = 90 * 1000
+export const DAY_TTL_MS = 25 * 60 * 60 * 1000
+
+/**
+ * Lua script for atomic rate limiting
+ * KEYS[1] = minute key
+ * KEYS[2] = day key
+ * KEYS[3] = billing-period key (optional)
+ * ARGV[1] = minute TTL (milliseconds)
+ * ARGV[2] = day TTL (milliseconds)
+ * ARGV[3] = minute limit
+ * ARGV[4] = day limit
+ * ARGV[5] = request cost (units)
+ * ARGV[6] = billing-period TTL (milliseconds, with KEYS[3])
+ * ARGV[7] = billing-period limit (with KEYS[3])
+ *
+ * Returns: [minuteCount, dayCount, overLimit (0 = no, 1 = minute, 2 = day, 3 = month), monthCount]
+ */
+const rateLimitLuaScript = `
+local cost = tonumber(ARGV[5])
+
+local m = redis.call('INCRBY', KEYS[1], cost)
+if m == cost then 
+  redis.call('PEXPIRE', KEYS[1], ARGV[1]) 
+end
+
+local d = redis.call('INCRBY', KEYS[2], cost)
+if d == cost then 
+  redis.call('PEXPIRE', KEYS[2], ARGV[2]) 
+end
+
+local mo = 0
+if KEYS[3] then
+  mo = redis.call('INCRBY', KEYS[3], cost)
+  if mo == cost then
+    redis.call('PEXPIRE', KEYS[3], ARGV[6])
+  end
+end
+
+local over = 0
+if KEYS[3] and mo > tonumber(ARGV[7]) then
+  over = 3
+elseif d > tonumber(ARGV[4]) then
+  over = 2
+elseif m > tonumber(ARGV[3]) then
+  over = 1
+end
+return {m, d, over, mo}
+`
+
+export const rateLimitScript = registerScript<[number, number, number, number]>({
+  name: "rateLimit",
+  lua: rateLimitLuaScript,
+  run(ctx, keys, args) {
+    const cost = Number(args[4])
+
+    const m = ctx.incrby(keys[0], cost)
+    if (m === cost) {
+      ctx.pexpire(keys[0], Number(args[0]))
+    }
+
+    const d = ctx.incrby(keys[1], cost)
+    if (d === cost) {
+      ctx.pexpire(keys[1], Number(args[1]))
+    }
+
+    let mo = 0
+    if (keys[2]) {
+      mo = ctx.incrby(keys[2], cost)
+      if (mo === cost) {
+        ctx.pexpire(keys[2], Number(args[5]))
+      }
+    }
+
+    let over = 0
+    if (keys[2] && mo > Number(args[6])) {
+      over = 3
+    } else if (d > Number(args[3])) {
+      over = 2
+    } else if (m > Number(args[2])) {
+      over = 1
+    }
+    return [m, d, over, mo]
+  },
+})
@@ -1,31 +1,185 @@
+import { DEFAULT_TIME_ZONE, getZonedMidnight, getZonedParts } from "@/lib/timezone"
+
 /**
  * Redis Key Patterns for Rate Limiter
+ *
+ * Keys that a script touches together share a hash tag (the part in braces),
+ * so on Redis Cluster they hash to the same slot and the script can run
+ * without CROSSSLOT errors. Counters are tagged by the API key or scope they
+ * count for.
  */
 
-export function getMinuteKey(apiKey: string): string {
-  const now = new Date()
+/**
+ * Wrap the part of a key that picks its cluster slot in braces
+ */
+export function hashTag(scope: string): string {
+  return `{${scope}}`
+}
+
+export function getMinuteKey(apiKey: string, now: Date = new Date()): string {
   const year = now.getUTCFullYear()
   const month = String(now.getUTCMonth() + 1).padStart(2, "0")
   const day = String(now.getUTCDate()).padStart(2, "0")
   const hour = String(now.getUTCHours()).padStart(2, "0")
   const minute = String(now.getUTCMinutes()).padStart(2, "0")
 
-  return `rl:${apiKey}:min:${year}${month}${day}${hour}${minute}`
+  return `rl:${hashTag(apiKey)}:min:${year}${month}${day}${hour}${minute}`
 }
 
-export function getDayKey(apiKey: string): string {
-  const now = new Date()
-  const year = now.getUTCFullYear()
-  const month = String(now.getUTCMonth() + 1).padStart(2, "0")
-  const day = String(now.getUTCDate()).padStart(2, "0")
+export function getDayKey(
+  apiKey: string,
+  now: Date = new Date(),
+  timeZone: string = DEFAULT_TIME_ZONE
+): string {
+  const local = getZonedParts(now, timeZone)
+  const year = local.year
+  const month = String(local.month + 1).padStart(2, "0")
+  const day = String(local.day).padStart(2, "0")
+
+  return `rl:${hashTag(apiKey)}:day:${year}${month}${day}`
+}
+
+/**
+ * Next local midnight, when the daily window containing now resets
+ */
+export function getDayEnd(now: Date, timeZone: string = DEFAULT_TIME_ZONE): Date {
+  const local = getZonedParts(now, timeZone)
+  return getZonedMidnight(local.year, local.month, local.day + 1, timeZone)
+}
+
+/**
+ * Local midnight on the anchor day of the given month, clamped to the month's length
+ */
+function anchorDate(year: number, month: number, anchorDay: number, timeZone: string): Date {
+  const first = new Date(Date.UTC(year, month, 1))
+  const daysInMonth = new Date(
+    Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)
+  ).getUTCDate()
+  return getZonedMidnight(
+    first.getUTCFullYear(),
+    first.getUTCMonth(),
+    Math.min(anchorDay, daysInMonth),
+    timeZone
+  )
+}
+
+/**
+ * Start of the billing period containing now (local midnight on the anchor day)
+ */
+export function getBillingPeriodStart(
+  now: Date,
+  anchorDay: number = 1,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Date {
+  const local = getZonedParts(now, timeZone)
+  const start = anchorDate(local.year, local.month, anchorDay, timeZone)
+  if (start.getTime() > now.getTime()) {
+    return anchorDate(local.year, local.month - 1, anchorDay, timeZone)
+  }
+  return start
+}
+
+/**
+ * End of the billing period containing now (start of the next one)
+ */
+export function getBillingPeriodEnd(
+  now: Date,
+  anchorDay: number = 1,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Date {
+  const start = getZonedParts(getBillingPeriodStart(now, anchorDay, timeZone), timeZone)
+  return anchorDate(start.year, start.month + 1, anchorDay, timeZone)
+}
+
+export function getMonthKey(
+  apiKey: string,
+  now: Date = new Date(),
+  anchorDay: number = 1,
+  timeZone: string = DEFAULT_TIME_ZONE
+): string {
+  const start = getZonedParts(getBillingPeriodStart(now, anchorDay, timeZone), timeZone)
+  const year = start.year
+  const month = String(start.month + 1).padStart(2, "0")
+  const day = String(start.day).padStart(2, "0")
+
+  return `rl:${hashTag(apiKey)}:month:${year}${month}${day}`
+}
+
+export function getBucketKey(apiKey: string): string {
+  return `rl:${hashTag(apiKey)}:bucket`
+}
+
+export function getGcraKey(apiKey: string): string {
+  return `rl:${hashTag(apiKey)}:gcra`
+}
 
-  return `rl:${apiKey}:day:${year}${month}${day}`
+export function getInFlightKey(apiKey: string): string {
+  return `rl:${hashTag(apiKey)}:inflight`
+}
+
+/**
+ * Requests blocked in the current penalty box window
+ */
+export function getStrikesKey(apiKey: string): string {
+  return `rl:${hashTag(apiKey)}:strikes`
+}
+
+/**
+ * Flag set while a key is serving a penalty box ban; expires when the ban ends
+ * Shares the strikes counter's slot so one script can update both
+ */
+export function getBanKey(apiKey: string): string {
+  return `ban:${hashTag(apiKey)}`
+}
+
+export function getBansSetKey(): string {
+  return `bans:all`
+}
+
+/**
+ * Deployment-wide adaptive limit factor, the handler latencies it follows and
+ * the lock for adjusting it
+ */
+export function getAdaptiveStateKey(): string {
+  return `adaptive:state`
+}
+
+export function getAdaptiveLatencyKey(): string {
+  return `adaptive:latency`
+}
+
+export function getAdaptiveLockKey(): string {
+  return `adaptive:lock`
+}
+
+/**
+ * Counter scope for an endpoint policy; used in place of the API key in the
+ * minute/day key helpers so each policy gets its own rl: counters
+ */
+export function getPolicyScope(apiKey: string, policyId: string): string {
+  return `${apiKey}:policy:${policyId}`
+}
+
+/**
+ * Counter scope for an organization's shared quota; used in place of the API
+ * key in the minute/day/month key helpers
+ */
+export function getOrganizationScope(organizationId: string): string {
+  return `org:${organizationId}`
+}
+
+/**
+ * Counter scope for unauthenticated traffic from one client IP
+ */
+export function getIpScope(ip: string): string {
+  return `ip:${ip}`
 }
 
 export function getMetadataKey(apiKey: string): string {
-  return `meta:${apiKey}`
+  return `meta:${hashTag(apiKey)}`
 }
 
+// Streams are only written one at a time, so they keep their untagged names
 export function getEventsStreamKey(apiKey: string): string {
   return `events:${apiKey}`
 }
@@ -34,8 +188,11 @@ export function getGlobalEventsStreamKey(): string {
   return `events:global`
 }
 
-export function getGlobalRPSKey(): string {
-  const now = new Date()
+/**
+ * Per-second global request counter; every second shares one slot so the
+ * load shedding script can read the current and previous second together
+ */
+export function getGlobalRPSKey(now: Date = new Date()): string {
   const year = now.getUTCFullYear()
   const month = String(now.getUTCMonth() + 1).padStart(2, "0")
   const day = String(now.getUTCDate()).padStart(2, "0")
@@ -43,5 +200,5 @@ export function getGlobalRPSKey(): string {
   const minute = String(now.getUTCMinutes()).padStart(2, "0")
   const second = String(now.getUTCSeconds()).padStart(2, "0")
 
-  return `global:rps:${year}${month}${day}${hour}${minute}${second}`
+  return `${hashTag("global:rps")}:${year}${month}${day}${hour}${minute}${second}`
 }
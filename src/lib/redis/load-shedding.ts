@@ -0,0 +1,115 @@
+import { getStorage } from "@/lib/storage"
+import { getGlobalRPSKey } from "./keys"
+import { registerScript } from "./scripts"
+
+/**
+ * Lua script for global load shedding
+ * KEYS[1] = current second counter (hash with "demand" and "admitted" fields)
+ * KEYS[2] = previous second counter
+ * ARGV[1] = global requests-per-second ceiling
+ * ARGV[2] = priority rank of the caller's tier (0 = highest)
+ * ARGV[3] = number of ranked tiers
+ *
+ * Overload is measured on the last full second: at 1.5x the ceiling with four
+ * tiers, the lowest two are shed. The highest-priority tier is only shed by the
+ * hard cap, which stops admitting anyone once this second reaches the ceiling.
+ *
+ * Returns: [shed (1 or 0), admitted, previousDemand]
+ */
+const loadSheddingLuaScript = `
+local ceiling = tonumber(ARGV[1])
+local rank = tonumber(ARGV[2])
+local tierCount = tonumber(ARGV[3])
+
+redis.call('HINCRBY', KEYS[1], 'demand', 1)
+redis.call('PEXPIRE', KEYS[1], 3000)
+
+local previousDemand = tonumber(redis.call('HGET', KEYS[2], 'demand') or '0')
+local admitted = tonumber(redis.call('HGET', KEYS[1], 'admitted') or '0')
+
+local shedTiers = 0
+if previousDemand > ceiling then
+  shedTiers = math.min(tierCount - 1, math.ceil((previousDemand / ceiling - 1) * tierCount))
+end
+
+if admitted >= ceiling or rank >= tierCount - shedTiers then
+  return {1, admitted, previousDemand}
+end
+
+admitted = redis.call('HINCRBY', KEYS[1], 'admitted', 1)
+return {0, admitted, previousDemand}
+`
+
+const loadSheddingScript = registerScript<[number, number, number]>({
+  name: "loadShedding",
+  lua: loadSheddingLuaScript,
+  run(ctx, [currentKey, previousKey], args) {
+    const [ceiling, rank, tierCount] = args.map(Number)
+
+    ctx.hincrby(currentKey, "demand", 1)
+    ctx.pexpire(currentKey, 3000)
+
+    const previousDemand = Number(ctx.hget(previousKey, "demand") ?? "0")
+    let admitted = Number(ctx.hget(currentKey, "admitted") ?? "0")
+
+    let shedTiers = 0
+    if (previousDemand > ceiling) {
+      shedTiers = Math.min(tierCount - 1, Math.ceil((previousDemand / ceiling - 1) * tierCount))
+    }
+
+    if (admitted >= ceiling || rank >= tierCount - shedTiers) {
+      return [1, admitted, previousDemand]
+    }
+
+    admitted = ctx.hincrby(currentKey, "admitted", 1)
+    return [0, admitted, previousDemand]
+  },
+})
+
+export type GlobalLoad = {
+  currentRps: number // requests seen so far this second
+  previousRps: number // requests seen in the last full second
+}
+
+/**
+ * Count the request against the global ceiling and decide whether to shed it
+ * based on its tier's priority rank
+ */
+export async function checkGlobalLoad(
+  ceiling: number,
+  tierRank: number,
+  tierCount: number
+): Promise<{ shed: boolean; admitted: number; previousDemand: number }> {
+  const storage = getStorage()
+
+  const now = new Date()
+  const result = await storage.runScript(
+    loadSheddingScript,
+    [getGlobalRPSKey(now), getGlobalRPSKey(new Date(now.getTime() - 1000))],
+    [ceiling.toString(), tierRank.toString(), tierCount.toString()]
+  )
+
+  return {
+    shed: result[0] === 1,
+    admitted: result[1],
+    previousDemand: result[2],
+  }
+}
+
+/**
+ * Read the global request rate without counting anything
+ */
+export async function getGlobalLoad(): Promise<GlobalLoad> {
+  const storage = getStorage()
+
+  const now = new Date()
+  const [current, previous] = await Promise.all([
+    storage.hget(getGlobalRPSKey(now), "demand"),
+    storage.hget(getGlobalRPSKey(new Date(now.getTime() - 1000)), "demand"),
+  ])
+
+  return {
+    currentRps: current ? parseInt(current, 10) : 0,
+    previousRps: previous ? parseInt(previous, 10) : 0,
+  }
+}
@@ -1,4 +1,4 @@
-import { getRedisClient } from "./client"
+import { getStorage } from "@/lib/storage"
 import { getMetadataKey } from "./keys"
 
 export type ApiKeyMetadata = {
@@ -18,10 +18,10 @@ export async function cacheMetadata(
   apiKey: string,
   metadata: ApiKeyMetadata
 ): Promise<void> {
-  const redis = getRedisClient()
+  const storage = getStorage()
   const key = getMetadataKey(apiKey)
 
-  await redis.setex(key, 24 * 60 * 60, JSON.stringify(metadata))
+  await storage.set(key, JSON.stringify(metadata), { ttlMs: 24 * 60 * 60 * 1000 })
 }
 
 /**
@@ -30,10 +30,10 @@ export async function cacheMetadata(
 export async function getCachedMetadata(
   apiKey: string
 ): Promise<ApiKeyMetadata | null> {
-  const redis = getRedisClient()
+  const storage = getStorage()
   const key = getMetadataKey(apiKey)
 
-  const data = await redis.get(key)
+  const data = await storage.get(key)
   if (!data) {
     return null
   }
@@ -45,28 +45,28 @@ export async function getCachedMetadata(
  * Invalidate cached metadata
  */
 export async function invalidateMetadata(apiKey: string): Promise<void> {
-  const redis = getRedisClient()
+  const storage = getStorage()
   const key = getMetadataKey(apiKey)
 
-  await redis.del(key)
+  await storage.del(key)
 }
 
 /**
  * Update last seen timestamp for an API key
  */
 export async function updateLastSeen(apiKey: string): Promise<void> {
-  const redis = getRedisClient()
+  const storage = getStorage()
   const key = `lastseen:${apiKey}`
 
-  await redis.set(key, new Date().toISOString(), "EX", 7 * 24 * 60 * 60)
+  await storage.set(key, new Date().toISOString(), { ttlMs: 7 * 24 * 60 * 60 * 1000 })
 }
 
 /**
  * Get last seen timestamp
  */
 export async function getLastSeen(apiKey: string): Promise<string | null> {
-  const redis = getRedisClient()
+  const storage = getStorage()
   const key = `lastseen:${apiKey}`
 
-  return await redis.get(key)
+  return await storage.get(key)
 }
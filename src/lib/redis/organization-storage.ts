@@ -0,0 +1,95 @@
+import { getStorage } from '@/lib/storage'
+import { Organization } from '@/lib/db/organizations'
+
+const storage = getStorage()
+
+const ORGANIZATION_PREFIX = 'organization:'
+const ORGANIZATION_SET_KEY = 'organizations:all'
+
+function getOrganizationKeysSet(id: string): string {
+  return `${ORGANIZATION_PREFIX}${id}:keys`
+}
+
+/**
+ * Store an organization in Redis
+ */
+export async function storeOrganization(organization: Organization): Promise<void> {
+  const key = `${ORGANIZATION_PREFIX}${organization.id}`
+
+  await storage.hset(key, {
+    id: organization.id,
+    name: organization.name,
+    perMinute: organization.perMinute.toString(),
+    perDay: organization.perDay.toString(),
+    perMonth: organization.perMonth.toString(),
+    billingAnchorDay: organization.billingAnchorDay.toString(),
+    createdAt: organization.createdAt,
+  })
+
+  // Add to the set of all organization IDs
+  await storage.sadd(ORGANIZATION_SET_KEY, organization.id)
+}
+
+/**
+ * Get an organization from Redis by ID
+ */
+export async function getStoredOrganization(id: string): Promise<Organization | null> {
+  const key = `${ORGANIZATION_PREFIX}${id}`
+  const data = await storage.hgetall(key)
+
+  if (!data || Object.keys(data).length === 0) {
+    return null
+  }
+
+  return {
+    id: data.id,
+    name: data.name,
+    perMinute: parseInt(data.perMinute),
+    perDay: parseInt(data.perDay),
+    perMonth: parseInt(data.perMonth || '0'),
+    billingAnchorDay: parseInt(data.billingAnchorDay || '1'),
+    createdAt: data.createdAt,
+  }
+}
+
+/**
+ * Get all organizations from Redis
+ */
+export async function getAllStoredOrganizations(): Promise<Organization[]> {
+  const organizationIds = await storage.smembers(ORGANIZATION_SET_KEY)
+
+  if (organizationIds.length === 0) {
+    return []
+  }
+
+  const organizations: Organization[] = []
+  for (const id of organizationIds) {
+    const organization = await getStoredOrganization(id)
+    if (organization) {
+      organizations.push(organization)
+    }
+  }
+
+  return organizations
+}
+
+/**
+ * Record an API key as a member of an organization
+ */
+export async function addStoredOrganizationKey(id: string, apiKeyId: string): Promise<void> {
+  await storage.sadd(getOrganizationKeysSet(id), apiKeyId)
+}
+
+/**
+ * Remove an API key from an organization's members
+ */
+export async function removeStoredOrganizationKey(id: string, apiKeyId: string): Promise<void> {
+  await storage.srem(getOrganizationKeysSet(id), apiKeyId)
+}
+
+/**
+ * Get the IDs of the API keys that belong to an organization
+ */
+export async function getStoredOrganizationKeys(id: string): Promise<string[]> {
+  return await storage.smembers(getOrganizationKeysSet(id))
+}
@@ -0,0 +1,90 @@
+import { getStorage } from '@/lib/storage'
+import { LimitOverride } from '@/lib/db/overrides'
+
+const storage = getStorage()
+
+const OVERRIDE_PREFIX = 'override:'
+const OVERRIDE_SET_KEY = 'overrides:all'
+
+/**
+ * Store a limit override in Redis
+ * The record expires on its own once the override window has ended
+ */
+export async function storeOverride(override: LimitOverride): Promise<void> {
+  const key = `${OVERRIDE_PREFIX}${override.id}`
+
+  await storage.hset(key, {
+    id: override.id,
+    targetType: override.targetType,
+    targetId: override.targetId,
+    perMinute: override.perMinute?.toString() ?? '',
+    perDay: override.perDay?.toString() ?? '',
+    perMonth: override.perMonth?.toString() ?? '',
+    startsAt: override.startsAt,
+    endsAt: override.endsAt,
+    reason: override.reason ?? '',
+    createdAt: override.createdAt,
+  })
+  await storage.pexpireat(key, new Date(override.endsAt).getTime())
+
+  // Add to the set of all override IDs
+  await storage.sadd(OVERRIDE_SET_KEY, override.id)
+}
+
+/**
+ * Get a limit override from Redis by ID
+ */
+export async function getStoredOverride(id: string): Promise<LimitOverride | null> {
+  const key = `${OVERRIDE_PREFIX}${id}`
+  const data = await storage.hgetall(key)
+
+  if (!data || Object.keys(data).length === 0) {
+    return null
+  }
+
+  return {
+    id: data.id,
+    targetType: data.targetType as LimitOverride['targetType'],
+    targetId: data.targetId,
+    perMinute: data.perMinute ? parseInt(data.perMinute) : null,
+    perDay: data.perDay ? parseInt(data.perDay) : null,
+    perMonth: data.perMonth ? parseInt(data.perMonth) : null,
+    startsAt: data.startsAt,
+    endsAt: data.endsAt,
+    reason: data.reason || null,
+    createdAt: data.createdAt,
+  }
+}
+
+/**
+ * Get all unexpired limit overrides from Redis
+ */
+export async function getAllStoredOverrides(): Promise<LimitOverride[]> {
+  const overrideIds = await storage.smembers(OVERRIDE_SET_KEY)
+
+  if (overrideIds.length === 0) {
+    return []
+  }
+
+  const overrides: LimitOverride[] = []
+  for (const id of overrideIds) {
+    const override = await getStoredOverride(id)
+    if (override) {
+      overrides.push(override)
+    } else {
+      // The record expired, drop it from the index too
+      await storage.srem(OVERRIDE_SET_KEY, id)
+    }
+  }
+
+  return overrides
+}
+
+/**
+ * Delete a limit override from Redis
+ */
+export async function deleteStoredOverride(id: string): Promise<void> {
+  const key = `${OVERRIDE_PREFIX}${id}`
+  await storage.del(key)
+  await storage.srem(OVERRIDE_SET_KEY, id)
+}
@@ -0,0 +1,169 @@
+import { getStorage } from "@/lib/storage"
+import { getBanKey, getBansSetKey, getStrikesKey } from "./keys"
+import { registerScript } from "./scripts"
+
+/**
+ * Lua script for recording a blocked request against the penalty box rule
+ * KEYS[1] = strikes counter for the key
+ * KEYS[2] = ban flag for the key (hash)
+ * ARGV[1] = blocked requests allowed per window before a ban
+ * ARGV[2] = window length in milliseconds
+ * ARGV[3] = ban length in milliseconds
+ * ARGV[4] = current timestamp in milliseconds
+ * ARGV[5] = API key ID, stored on the ban for the admin API
+ *
+ * The window starts at the first blocked request and the counter is cleared
+ * once a ban is issued, so a key serves one ban per run of strikes.
+ * The set of banned keys lives in another cluster slot, so the caller adds
+ * new bans to it.
+ *
+ * Returns: [banned (1 or 0), strikes]
+ */
+const penaltyBoxLuaScript = `
+local threshold = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+local banMs = tonumber(ARGV[3])
+local now = tonumber(ARGV[4])
+
+local strikes = redis.call('INCR', KEYS[1])
+if strikes == 1 then
+  redis.call('PEXPIRE', KEYS[1], windowMs)
+end
+
+if strikes <= threshold then
+  return {0, strikes}
+end
+
+redis.call('HSET', KEYS[2],
+  'apiKeyId', ARGV[5],
+  'strikes', strikes,
+  'bannedAt', now,
+  'expiresAt', now + banMs)
+redis.call('PEXPIRE', KEYS[2], banMs)
+redis.call('DEL', KEYS[1])
+
+return {1, strikes}
+`
+
+const penaltyBoxScript = registerScript<[number, number]>({
+  name: "penaltyBox",
+  lua: penaltyBoxLuaScript,
+  run(ctx, [strikesKey, banKey], args) {
+    const [threshold, windowMs, banMs, now] = args.slice(0, 4).map(Number)
+
+    const strikes = ctx.incrby(strikesKey, 1)
+    if (strikes === 1) {
+      ctx.pexpire(strikesKey, windowMs)
+    }
+
+    if (strikes <= threshold) {
+      return [0, strikes]
+    }
+
+    ctx.hset(banKey, {
+      apiKeyId: args[4],
+      strikes: strikes.toString(),
+      bannedAt: now.toString(),
+      expiresAt: (now + banMs).toString(),
+    })
+    ctx.pexpire(banKey, banMs)
+    ctx.del(strikesKey)
+
+    return [1, strikes]
+  },
+})
+
+export type Ban = {
+  apiKey: string
+  apiKeyId: string
+  strikes: number // blocked requests that triggered the ban
+  bannedAt: string
+  expiresAt: string
+}
+
+/**
+ * Count a blocked request towards the penalty box and ban the key once it has
+ * been blocked more than `threshold` times within the window
+ */
+export async function recordBlockedRequest(
+  apiKey: string,
+  apiKeyId: string,
+  threshold: number,
+  windowSeconds: number,
+  banSeconds: number
+): Promise<{ banned: boolean; strikes: number }> {
+  const storage = getStorage()
+
+  const result = await storage.runScript(
+    penaltyBoxScript,
+    [getStrikesKey(apiKey), getBanKey(apiKey)],
+    [
+      threshold.toString(),
+      (windowSeconds * 1000).toString(),
+      (banSeconds * 1000).toString(),
+      Date.now().toString(),
+      apiKeyId,
+    ]
+  )
+
+  if (result[0] === 1) {
+    // Stale entries are pruned by getActiveBans once the ban runs out
+    await storage.sadd(getBansSetKey(), apiKey)
+    console.log(`⛔ Banned API key ${apiKeyId} for ${banSeconds}s after ${result[1]} blocked requests`)
+  }
+
+  return { banned: result[0] === 1, strikes: result[1] }
+}
+
+/**
+ * Milliseconds left on the key's ban, or null if it is not banned
+ * A single PTTL, so it is cheap enough to run before any other check
+ */
+export async function getBanRemainingMs(apiKey: string): Promise<number | null> {
+  const storage = getStorage()
+  const ttl = await storage.pttl(getBanKey(apiKey))
+
+  return ttl > 0 ? ttl : null
+}
+
+/**
+ * List keys currently serving a ban
+ */
+export async function getActiveBans(): Promise<Ban[]> {
+  const storage = getStorage()
+  const apiKeys = await storage.smembers(getBansSetKey())
+
+  const bans: Ban[] = []
+  for (const apiKey of apiKeys) {
+    const data = await storage.hgetall(getBanKey(apiKey))
+
+    if (!data || Object.keys(data).length === 0) {
+      // The ban ran out, drop it from the index too
+      await storage.srem(getBansSetKey(), apiKey)
+      continue
+    }
+
+    bans.push({
+      apiKey,
+      apiKeyId: data.apiKeyId,
+      strikes: parseInt(data.strikes || "0", 10),
+      bannedAt: new Date(parseInt(data.bannedAt, 10)).toISOString(),
+      expiresAt: new Date(parseInt(data.expiresAt, 10)).toISOString(),
+    })
+  }
+
+  return bans.sort((a, b) => a.expiresAt.localeCompare(b.expiresAt))
+}
+
+/**
+ * Lift a key's ban early and reset its strikes
+ */
+export async function liftBan(apiKey: string): Promise<boolean> {
+  const storage = getStorage()
+
+  const removed = await storage.del(getBanKey(apiKey))
+  await storage.del(getStrikesKey(apiKey))
+  await storage.srem(getBansSetKey(), apiKey)
+
+  return removed > 0
+}
@@ -0,0 +1,77 @@
+import { getStorage } from '@/lib/storage'
+import { EndpointPolicy } from '@/lib/db/policies'
+
+const storage = getStorage()
+
+const POLICY_PREFIX = 'policy:'
+const POLICY_SET_KEY = 'policies:all'
+
+/**
+ * Store an endpoint policy in Redis
+ */
+export async function storePolicy(policy: EndpointPolicy): Promise<void> {
+  const key = `${POLICY_PREFIX}${policy.id}`
+
+  await storage.hset(key, {
+    id: policy.id,
+    endpoint: policy.endpoint,
+    method: policy.method ?? '',
+    perMinute: policy.perMinute.toString(),
+    perDay: policy.perDay?.toString() ?? '',
+    cost: policy.cost?.toString() ?? '',
+  })
+
+  // Add to the set of all policy IDs
+  await storage.sadd(POLICY_SET_KEY, policy.id)
+}
+
+/**
+ * Get an endpoint policy from Redis by ID
+ */
+export async function getStoredPolicy(id: string): Promise<EndpointPolicy | null> {
+  const key = `${POLICY_PREFIX}${id}`
+  const data = await storage.hgetall(key)
+
+  if (!data || Object.keys(data).length === 0) {
+    return null
+  }
+
+  return {
+    id: data.id,
+    endpoint: data.endpoint,
+    method: data.method || null,
+    perMinute: parseInt(data.perMinute),
+    perDay: data.perDay ? parseInt(data.perDay) : null,
+    cost: data.cost ? parseInt(data.cost) : null,
+  }
+}
+
+/**
+ * Get all endpoint policies from Redis
+ */
+export async function getAllStoredPolicies(): Promise<EndpointPolicy[]> {
+  const policyIds = await storage.smembers(POLICY_SET_KEY)
+
+  if (policyIds.length === 0) {
+    return []
+  }
+
+  const policies: EndpointPolicy[] = []
+  for (const id of policyIds) {
+    const policy = await getStoredPolicy(id)
+    if (policy) {
+      policies.push(policy)
+    }
+  }
+
+  return policies
+}
+
+/**
+ * Delete an endpoint policy from Redis
+ */
+export async function deleteStoredPolicy(id: string): Promise<void> {
+  const key = `${POLICY_PREFIX}${id}`
+  await storage.del(key)
+  await storage.srem(POLICY_SET_KEY, id)
+}
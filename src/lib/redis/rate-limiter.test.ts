@@ -0,0 +1,249 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { getRedisClient } from "./client"
+import { acquireLease, releaseLease } from "./concurrency"
+import { getOrganizationScope } from "./keys"
+import { checkRateLimit, getCurrentUsage } from "./rate-limiter"
+
+vi.mock("ioredis", () => import("@/test/ioredis-mock"))
+
+const burst = { ratePerSecond: 1, burstLimit: 3 }
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ["Date"] })
+  vi.setSystemTime(new Date("2025-03-10T12:00:10Z"))
+  await getRedisClient().flushall()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe("token bucket", () => {
+  it("allows up to the burst limit, then rejects until a token refills", async () => {
+    for (let i = 0; i < 3; i++) {
+      const result = await checkRateLimit("key_a", 100, 1000, { burst })
+      expect(result.isOverLimit).toBe(false)
+      expect(result.burstRemaining).toBe(2 - i)
+    }
+
+    const rejected = await checkRateLimit("key_a", 100, 1000, { burst })
+    expect(rejected.isOverLimit).toBe(true)
+    expect(rejected.limitedBy).toBe("burst")
+    expect(rejected.retryAfterMs).toBe(1000)
+    // A rejected burst does not reach the window counters
+    expect(rejected.minuteCount).toBe(3)
+
+    vi.setSystemTime(new Date("2025-03-10T12:00:11Z"))
+    const refilled = await checkRateLimit("key_a", 100, 1000, { burst })
+    expect(refilled.isOverLimit).toBe(false)
+    expect(refilled.burstRemaining).toBe(0)
+  })
+
+  it("refills no further than the burst limit", async () => {
+    await checkRateLimit("key_a", 100, 1000, { burst })
+
+    vi.setSystemTime(new Date("2025-03-10T12:00:40Z"))
+    const results = []
+    for (let i = 0; i < 4; i++) {
+      results.push(await checkRateLimit("key_a", 100, 1000, { burst }))
+    }
+    expect(results.map((r) => r.isOverLimit)).toEqual([false, false, false, true])
+  })
+
+  it("charges the request cost in tokens", async () => {
+    const result = await checkRateLimit("key_a", 100, 1000, { burst, cost: 3 })
+    expect(result.burstRemaining).toBe(0)
+
+    const rejected = await checkRateLimit("key_a", 100, 1000, { burst, cost: 2 })
+    expect(rejected.limitedBy).toBe("burst")
+    expect(rejected.retryAfterMs).toBe(2000)
+  })
+
+  it("keeps buckets separate per key", async () => {
+    await checkRateLimit("key_a", 100, 1000, { burst, cost: 3 })
+    const other = await checkRateLimit("key_b", 100, 1000, { burst })
+    expect(other.isOverLimit).toBe(false)
+  })
+
+  it("never hands out more burst tokens than the bucket holds under concurrency", async () => {
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () => checkRateLimit("key_a", 100, 1000, { burst }))
+    )
+
+    expect(results.filter((r) => !r.isOverLimit)).toHaveLength(3)
+  })
+})
+
+describe("fixed window", () => {
+  it("rejects past the minute limit", async () => {
+    for (let i = 0; i < 5; i++) {
+      expect((await checkRateLimit("key_a", 5, 1000)).isOverLimit).toBe(false)
+    }
+
+    const rejected = await checkRateLimit("key_a", 5, 1000)
+    expect(rejected.isOverLimit).toBe(true)
+    expect(rejected.limitedBy).toBe("minute")
+    expect(rejected.retryAfterMs).toBe(50 * 1000)
+    // Fixed windows count rejected requests too
+    expect(await getCurrentUsage("key_a")).toEqual({ minute: 6, day: 6, month: 0 })
+  })
+
+  it("resets the minute window at the next minute but keeps the day count", async () => {
+    for (let i = 0; i < 5; i++) {
+      await checkRateLimit("key_a", 5, 1000)
+    }
+
+    vi.setSystemTime(new Date("2025-03-10T12:01:00Z"))
+    const result = await checkRateLimit("key_a", 5, 1000)
+    expect(result.isOverLimit).toBe(false)
+    expect(result.minuteCount).toBe(1)
+    expect(result.dayCount).toBe(6)
+  })
+
+  it("rejects past the day limit until the day rolls over", async () => {
+    for (let i = 0; i < 3; i++) {
+      await checkRateLimit("key_a", 100, 3)
+    }
+
+    const rejected = await checkRateLimit("key_a", 100, 3)
+    expect(rejected.limitedBy).toBe("day")
+
+    vi.setSystemTime(new Date("2025-03-11T00:00:00Z"))
+    expect((await checkRateLimit("key_a", 100, 3)).isOverLimit).toBe(false)
+  })
+
+  it("never lets concurrent requests past the limit", async () => {
+    const results = await Promise.all(
+      Array.from({ length: 20 }, () => checkRateLimit("key_a", 7, 1000))
+    )
+
+    expect(results.filter((r) => !r.isOverLimit)).toHaveLength(7)
+    expect((await getCurrentUsage("key_a")).minute).toBe(20)
+  })
+})
+
+describe("organization members", () => {
+  const organization = { id: "org_a", perMinute: 100, perDay: 1000 }
+
+  it("keep their tier's sliding window", async () => {
+    for (let i = 0; i < 5; i++) {
+      await checkRateLimit("key_a", 5, 1000, { algorithm: "sliding-window", organization })
+    }
+
+    // 50s into the next minute the previous one still weighs in at 4 of 5
+    vi.setSystemTime(new Date("2025-03-10T12:01:10Z"))
+    const results = []
+    for (let i = 0; i < 2; i++) {
+      results.push(await checkRateLimit("key_a", 5, 1000, { algorithm: "sliding-window", organization }))
+    }
+
+    expect(results.map((r) => r.isOverLimit)).toEqual([false, true])
+    expect(results[1]).toMatchObject({ limitedBy: "minute", limitedScope: "key" })
+    // The request the key turned away is handed back to the organization
+    expect((await getCurrentUsage(getOrganizationScope("org_a"))).day).toBe(6)
+  })
+
+  it("are turned away by the organization's quota without charging the key", async () => {
+    const shared = { ...organization, perMinute: 2 }
+    await checkRateLimit("key_b", 100, 1000, { algorithm: "sliding-window", organization: shared })
+    await checkRateLimit("key_a", 100, 1000, { algorithm: "sliding-window", organization: shared })
+
+    const rejected = await checkRateLimit("key_a", 100, 1000, {
+      algorithm: "sliding-window",
+      organization: shared,
+    })
+    expect(rejected).toMatchObject({ isOverLimit: true, limitedBy: "minute", limitedScope: "organization" })
+    expect(await getCurrentUsage("key_a")).toEqual({ minute: 1, day: 1, month: 0 })
+  })
+})
+
+describe("delay mode", () => {
+  // Waits skip ahead on the mocked clock instead of taking real time
+  function skipWaits() {
+    const realSetTimeout = globalThis.setTimeout
+    vi.spyOn(globalThis, "setTimeout").mockImplementation(((callback: () => void, ms = 0) => {
+      vi.setSystemTime(Date.now() + ms)
+      return realSetTimeout(callback, 0)
+    }) as typeof setTimeout)
+  }
+
+  it("waits for the next minute and charges the day window only once", async () => {
+    skipWaits()
+
+    await checkRateLimit("key_a", 1, 1000)
+    const delayed = await checkRateLimit("key_a", 1, 1000, { maxDelayMs: 60000 })
+
+    expect(delayed.isOverLimit).toBe(false)
+    expect(delayed.delayMs).toBe(50 * 1000)
+    expect(delayed.minuteCount).toBe(1)
+    expect(delayed.dayCount).toBe(2)
+  })
+
+  it("waits only until a sliding window has room", async () => {
+    skipWaits()
+    vi.setSystemTime(new Date("2025-03-10T12:00:55Z"))
+    for (let i = 0; i < 10; i++) {
+      await checkRateLimit("key_a", 10, 1000, { algorithm: "sliding-window" })
+    }
+
+    // Past the minute the full one becomes the previous bucket and starts sliding out
+    const delayed = await checkRateLimit("key_a", 10, 1000, {
+      algorithm: "sliding-window",
+      maxDelayMs: 10000,
+    })
+    expect(delayed.isOverLimit).toBe(false)
+    expect(delayed.delayMs).toBe(5006)
+  })
+
+  it("hints the time until the previous minute has slid out far enough", async () => {
+    for (let i = 0; i < 10; i++) {
+      await checkRateLimit("key_a", 10, 1000, { algorithm: "sliding-window" })
+    }
+
+    // 15s into the next minute the previous one weighs in at 7 of 10
+    vi.setSystemTime(new Date("2025-03-10T12:01:15Z"))
+    for (let i = 0; i < 3; i++) {
+      await checkRateLimit("key_a", 10, 1000, { algorithm: "sliding-window" })
+    }
+    const rejected = await checkRateLimit("key_a", 10, 1000, { algorithm: "sliding-window" })
+    expect(rejected.limitedBy).toBe("minute")
+    expect(rejected.retryAfterMs).toBe(3006)
+
+    vi.setSystemTime(new Date(Date.now() + rejected.retryAfterMs))
+    expect((await checkRateLimit("key_a", 10, 1000, { algorithm: "sliding-window" })).isOverLimit).toBe(false)
+  })
+
+  it("rejects without waiting when the wait is over the maximum", async () => {
+    await checkRateLimit("key_a", 1, 1000)
+    const rejected = await checkRateLimit("key_a", 1, 1000, { maxDelayMs: 1000 })
+
+    expect(rejected.limitedBy).toBe("minute")
+    expect(rejected.delayMs).toBe(0)
+  })
+})
+
+describe("concurrency leases", () => {
+  it("caps in-flight requests and frees a slot on release", async () => {
+    const leases = await Promise.all(
+      Array.from({ length: 3 }, () => acquireLease("key_a", 2, 30000))
+    )
+    expect(leases.filter((l) => l.acquired)).toHaveLength(2)
+
+    const held = leases.find((l) => l.acquired)
+    if (!held?.acquired) {
+      throw new Error("expected a lease")
+    }
+    await releaseLease("key_a", held.leaseId)
+
+    expect((await acquireLease("key_a", 2, 30000)).acquired).toBe(true)
+  })
+
+  it("drops leases that outlived their TTL", async () => {
+    await acquireLease("key_a", 1, 30000)
+    expect((await acquireLease("key_a", 1, 30000)).acquired).toBe(false)
+
+    vi.setSystemTime(new Date("2025-03-10T12:00:41Z"))
+    expect((await acquireLease("key_a", 1, 30000)).acquired).toBe(true)
+  })
+})
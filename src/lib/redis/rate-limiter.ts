@@ -1,67 +1,1090 @@
-import { getRedisClient } from "./client"
-import { getDayKey, getMinuteKey } from "./keys"
+import { getStorage } from "@/lib/storage"
+import {
+  getBillingPeriodEnd,
+  getBucketKey,
+  getDayEnd,
+  getDayKey,
+  getGcraKey,
+  getMinuteKey,
+  getMonthKey,
+  getOrganizationScope,
+} from "./keys"
+import { registerScript } from "./scripts"
+import { DAY_TTL_MS, MINUTE_TTL_MS, rateLimitScript } from "./fixed-window"
+import { DEFAULT_TIME_ZONE } from "@/lib/timezone"
+import { env } from "@/lib/env"
 
 /**
- * Lua script for atomic rate limiting
- * KEYS[1] = minute key
- * KEYS[2] = day key
+ * Lua script for sliding-window rate limiting (weighted two-bucket counter)
+ * KEYS[1] = current minute key
+ * KEYS[2] = previous minute key
+ * KEYS[3] = day key
+ * KEYS[4] = billing-period key (optional)
  * ARGV[1] = minute TTL (milliseconds)
  * ARGV[2] = day TTL (milliseconds)
  * ARGV[3] = minute limit
  * ARGV[4] = day limit
+ * ARGV[5] = weight of the previous minute (fraction of it still inside the window)
+ * ARGV[6] = request cost (units)
+ * ARGV[7] = billing-period TTL (milliseconds, with KEYS[4])
+ * ARGV[8] = billing-period limit (with KEYS[4])
+ *
+ * Rejected requests are not counted, so a client that backs off recovers
+ * as the previous minute slides out of the window.
  *
- * Returns: [minuteCount, dayCount, isOverLimit (1 or 0)]
+ * Returns: [estimatedMinuteCount, dayCount, overLimit (0 = no, 1 = minute, 2 = day, 3 = month), monthCount, currentMinuteCount, previousMinuteCount]
  */
-const rateLimitLuaScript = `
-local m = redis.call('INCR', KEYS[1])
-if m == 1 then 
-  redis.call('PEXPIRE', KEYS[1], ARGV[1]) 
+const slidingWindowLuaScript = `
+local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+local previous = tonumber(redis.call('GET', KEYS[2]) or '0')
+local d = tonumber(redis.call('GET', KEYS[3]) or '0')
+local estimated = math.floor(previous * tonumber(ARGV[5])) + current
+local cost = tonumber(ARGV[6])
+local mo = 0
+if KEYS[4] then
+  mo = tonumber(redis.call('GET', KEYS[4]) or '0')
+end
+
+if KEYS[4] and mo + cost > tonumber(ARGV[8]) then
+  return {estimated, d, 3, mo, current, previous}
+end
+if d + cost > tonumber(ARGV[4]) then
+  return {estimated, d, 2, mo, current, previous}
+end
+if estimated + cost > tonumber(ARGV[3]) then
+  return {estimated, d, 1, mo, current, previous}
+end
+
+current = redis.call('INCRBY', KEYS[1], cost)
+if current == cost then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
 end
 
-local d = redis.call('INCR', KEYS[2])
-if d == 1 then 
-  redis.call('PEXPIRE', KEYS[2], ARGV[2]) 
+d = redis.call('INCRBY', KEYS[3], cost)
+if d == cost then
+  redis.call('PEXPIRE', KEYS[3], ARGV[2])
 end
 
-local over = (m > tonumber(ARGV[3])) or (d > tonumber(ARGV[4]))
-return {m, d, over and 1 or 0}
+if KEYS[4] then
+  mo = redis.call('INCRBY', KEYS[4], cost)
+  if mo == cost then
+    redis.call('PEXPIRE', KEYS[4], ARGV[7])
+  end
+end
+
+return {estimated + cost, d, 0, mo, current, previous}
 `
 
+const slidingWindowScript = registerScript<[number, number, number, number, number, number]>({
+  name: "slidingWindow",
+  lua: slidingWindowLuaScript,
+  run(ctx, keys, args) {
+    let current = Number(ctx.get(keys[0]) ?? "0")
+    const previous = Number(ctx.get(keys[1]) ?? "0")
+    let d = Number(ctx.get(keys[2]) ?? "0")
+    const estimated = Math.floor(previous * Number(args[4])) + current
+    const cost = Number(args[5])
+    let mo = 0
+    if (keys[3]) {
+      mo = Number(ctx.get(keys[3]) ?? "0")
+    }
+
+    if (keys[3] && mo + cost > Number(args[7])) {
+      return [estimated, d, 3, mo, current, previous]
+    }
+    if (d + cost > Number(args[3])) {
+      return [estimated, d, 2, mo, current, previous]
+    }
+    if (estimated + cost > Number(args[2])) {
+      return [estimated, d, 1, mo, current, previous]
+    }
+
+    current = ctx.incrby(keys[0], cost)
+    if (current === cost) {
+      ctx.pexpire(keys[0], Number(args[0]))
+    }
+
+    d = ctx.incrby(keys[2], cost)
+    if (d === cost) {
+      ctx.pexpire(keys[2], Number(args[1]))
+    }
+
+    if (keys[3]) {
+      mo = ctx.incrby(keys[3], cost)
+      if (mo === cost) {
+        ctx.pexpire(keys[3], Number(args[6]))
+      }
+    }
+
+    return [estimated + cost, d, 0, mo, current, previous]
+  },
+})
+
+/**
+ * Lua script for token-bucket burst limiting
+ * KEYS[1] = bucket key (hash with "tokens" and "ts" fields)
+ * ARGV[1] = refill rate (tokens per second)
+ * ARGV[2] = bucket capacity (burst limit)
+ * ARGV[3] = current time (milliseconds)
+ * ARGV[4] = request cost (tokens)
+ * ARGV[5] = max delay (milliseconds); a short wait reserves a future token instead of rejecting
+ *
+ * Returns: [allowed (1 or 0), tokensRemaining, retryAfterMs, delayMs]
+ */
+const tokenBucketLuaScript = `
+local rate = tonumber(ARGV[1])
+local capacity = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+local maxDelay = tonumber(ARGV[5])
+
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(bucket[1])
+local ts = tonumber(bucket[2])
+if tokens == nil or ts == nil then
+  tokens = capacity
+  ts = now
+end
+
+local elapsed = math.max(0, now - ts)
+tokens = math.min(capacity, tokens + (elapsed * rate / 1000))
+
+local allowed = 0
+local retryAfter = 0
+local delay = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+else
+  retryAfter = math.ceil((cost - tokens) * 1000 / rate)
+  if retryAfter <= maxDelay then
+    -- Borrow against the refill; the caller waits until the token exists
+    tokens = tokens - cost
+    allowed = 1
+    delay = retryAfter
+    retryAfter = 0
+  end
+end
+
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity * 1000 / rate) + 1000)
+
+return {allowed, math.max(0, math.floor(tokens)), retryAfter, delay}
+`
+
+const tokenBucketScript = registerScript<[number, number, number, number]>({
+  name: "tokenBucket",
+  lua: tokenBucketLuaScript,
+  run(ctx, [bucketKey], args) {
+    const [rate, capacity, now, cost, maxDelay] = args.map(Number)
+
+    const [storedTokens, storedTs] = ctx.hmget(bucketKey, "tokens", "ts")
+    let tokens = storedTokens === null ? NaN : Number(storedTokens)
+    let ts = storedTs === null ? NaN : Number(storedTs)
+    if (isNaN(tokens) || isNaN(ts)) {
+      tokens = capacity
+      ts = now
+    }
+
+    const elapsed = Math.max(0, now - ts)
+    tokens = Math.min(capacity, tokens + (elapsed * rate) / 1000)
+
+    let allowed = 0
+    let retryAfter = 0
+    let delay = 0
+    if (tokens >= cost) {
+      tokens = tokens - cost
+      allowed = 1
+    } else {
+      retryAfter = Math.ceil(((cost - tokens) * 1000) / rate)
+      if (retryAfter <= maxDelay) {
+        tokens = tokens - cost
+        allowed = 1
+        delay = retryAfter
+        retryAfter = 0
+      }
+    }
+
+    ctx.hset(bucketKey, { tokens: tokens.toString(), ts: now.toString() })
+    ctx.pexpire(bucketKey, Math.ceil((capacity * 1000) / rate) + 1000)
+
+    return [allowed, Math.max(0, Math.floor(tokens)), retryAfter, delay]
+  },
+})
+
+/**
+ * Lua script for GCRA (generic cell rate algorithm) rate limiting
+ * KEYS[1] = theoretical arrival time (TAT) key
+ * KEYS[2] = day key
+ * KEYS[3] = billing-period key (optional)
+ * ARGV[1] = emission interval (milliseconds per request)
+ * ARGV[2] = period (milliseconds, the burst tolerance)
+ * ARGV[3] = current time (milliseconds)
+ * ARGV[4] = day TTL (milliseconds)
+ * ARGV[5] = day limit
+ * ARGV[6] = request cost (units)
+ * ARGV[7] = max delay (milliseconds); a slot this close is reserved instead of rejected
+ * ARGV[8] = billing-period TTL (milliseconds, with KEYS[3])
+ * ARGV[9] = billing-period limit (with KEYS[3])
+ *
+ * Returns: [remaining, dayCount, overLimit (0 = no, 1 = minute, 2 = day, 3 = month), retryAfterMs, resetAfterMs, monthCount, delayMs]
+ */
+const gcraLuaScript = `
+local interval = tonumber(ARGV[1])
+local period = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local cost = tonumber(ARGV[6])
+local maxDelay = tonumber(ARGV[7])
+
+local tat = tonumber(redis.call('GET', KEYS[1]) or ARGV[3])
+if tat < now then
+  tat = now
+end
+
+local d = tonumber(redis.call('GET', KEYS[2]) or '0')
+local mo = 0
+if KEYS[3] then
+  mo = tonumber(redis.call('GET', KEYS[3]) or '0')
+end
+
+if KEYS[3] and mo + cost > tonumber(ARGV[9]) then
+  return {0, d, 3, 0, math.ceil(tat - now), mo, 0}
+end
+if d + cost > tonumber(ARGV[5]) then
+  return {0, d, 2, 0, math.ceil(tat - now), mo, 0}
+end
+
+local newTat = tat + (interval * cost)
+local allowAt = newTat - period
+local delay = 0
+if allowAt > now then
+  if allowAt - now > maxDelay then
+    return {0, d, 1, math.ceil(allowAt - now), math.ceil(tat - now), mo, 0}
+  end
+  delay = math.ceil(allowAt - now)
+end
+
+redis.call('SET', KEYS[1], tostring(newTat), 'PX', math.ceil(newTat - now) + 1000)
+
+d = redis.call('INCRBY', KEYS[2], cost)
+if d == cost then
+  redis.call('PEXPIRE', KEYS[2], ARGV[4])
+end
+
+if KEYS[3] then
+  mo = redis.call('INCRBY', KEYS[3], cost)
+  if mo == cost then
+    redis.call('PEXPIRE', KEYS[3], ARGV[8])
+  end
+end
+
+local remaining = math.max(0, math.floor((period - (newTat - now)) / interval))
+return {remaining, d, 0, 0, math.ceil(newTat - now), mo, delay}
+`
+
+const gcraScript = registerScript<[number, number, number, number, number, number, number]>({
+  name: "gcra",
+  lua: gcraLuaScript,
+  run(ctx, keys, args) {
+    const interval = Number(args[0])
+    const period = Number(args[1])
+    const now = Number(args[2])
+    const cost = Number(args[5])
+    const maxDelay = Number(args[6])
+
+    let tat = Number(ctx.get(keys[0]) ?? args[2])
+    if (tat < now) {
+      tat = now
+    }
+
+    let d = Number(ctx.get(keys[1]) ?? "0")
+    let mo = 0
+    if (keys[2]) {
+      mo = Number(ctx.get(keys[2]) ?? "0")
+    }
+
+    if (keys[2] && mo + cost > Number(args[8])) {
+      return [0, d, 3, 0, Math.ceil(tat - now), mo, 0]
+    }
+    if (d + cost > Number(args[4])) {
+      return [0, d, 2, 0, Math.ceil(tat - now), mo, 0]
+    }
+
+    const newTat = tat + interval * cost
+    const allowAt = newTat - period
+    let delay = 0
+    if (allowAt > now) {
+      if (allowAt - now > maxDelay) {
+        return [0, d, 1, Math.ceil(allowAt - now), Math.ceil(tat - now), mo, 0]
+      }
+      delay = Math.ceil(allowAt - now)
+    }
+
+    ctx.set(keys[0], newTat.toString(), { ttlMs: Math.ceil(newTat - now) + 1000 })
+
+    d = ctx.incrby(keys[1], cost)
+    if (d === cost) {
+      ctx.pexpire(keys[1], Number(args[3]))
+    }
+
+    if (keys[2]) {
+      mo = ctx.incrby(keys[2], cost)
+      if (mo === cost) {
+        ctx.pexpire(keys[2], Number(args[7]))
+      }
+    }
+
+    const remaining = Math.max(0, Math.floor((period - (newTat - now)) / interval))
+    return [remaining, d, 0, 0, Math.ceil(newTat - now), mo, delay]
+  },
+})
+
+/**
+ * Lua script for shared quotas (an API key's windows plus its organization's)
+ * KEYS[i] = window counter
+ * ARGV[1] = request cost (units)
+ * ARGV[2i] = limit for KEYS[i]
+ * ARGV[2i + 1] = TTL for KEYS[i] (milliseconds)
+ *
+ * Every window is checked before any is incremented, so a request rejected by
+ * the organization does not use up the key's own quota (or the other way round).
+ *
+ * Returns: [overIndex (0 = no, otherwise the first KEYS index over its limit), count1, count2, ...]
+ */
+const sharedQuotaLuaScript = `
+local cost = tonumber(ARGV[1])
+local counts = {}
+
+for i = 1, #KEYS do
+  counts[i] = tonumber(redis.call('GET', KEYS[i]) or '0')
+end
+
+for i = 1, #KEYS do
+  if counts[i] + cost > tonumber(ARGV[i * 2]) then
+    return {i, unpack(counts)}
+  end
+end
+
+for i = 1, #KEYS do
+  counts[i] = redis.call('INCRBY', KEYS[i], cost)
+  if counts[i] == cost then
+    redis.call('PEXPIRE', KEYS[i], ARGV[i * 2 + 1])
+  end
+end
+
+return {0, unpack(counts)}
+`
+
+const sharedQuotaScript = registerScript<number[]>({
+  name: "sharedQuota",
+  lua: sharedQuotaLuaScript,
+  run(ctx, keys, args) {
+    const cost = Number(args[0])
+    const counts = keys.map((key) => Number(ctx.get(key) ?? "0"))
+
+    // ARGV is 1-based in Lua, so KEYS[i]'s limit at ARGV[2i] is args[2i - 1] here
+    for (let i = 0; i < keys.length; i++) {
+      if (counts[i] + cost > Number(args[2 * i + 1])) {
+        return [i + 1, ...counts]
+      }
+    }
+
+    keys.forEach((key, i) => {
+      counts[i] = ctx.incrby(key, cost)
+      if (counts[i] === cost) {
+        ctx.pexpire(key, Number(args[2 * i + 2]))
+      }
+    })
+
+    return [0, ...counts]
+  },
+})
+
+/**
+ * Lua script for handing back units charged by the shared quota script
+ * KEYS[i] = window counter
+ * ARGV[1] = request cost (units)
+ */
+const refundLuaScript = `
+for i = 1, #KEYS do
+  redis.call('DECRBY', KEYS[i], ARGV[1])
+end
+return 0
+`
+
+const refundScript = registerScript<number>({
+  name: "refundQuota",
+  lua: refundLuaScript,
+  run(ctx, keys, args) {
+    keys.forEach((key) => ctx.incrby(key, -Number(args[0])))
+    return 0
+  },
+})
+
+export type BurstConfig = {
+  ratePerSecond: number
+  burstLimit: number
+}
+
+export type RateLimitAlgorithm = "fixed-window" | "sliding-window" | "gcra"
+
+export type MonthlyQuota = {
+  limit: number
+  anchorDay: number // day of month the billing period starts on
+}
+
+export type OrganizationQuota = {
+  id: string
+  perMinute: number
+  perDay: number
+  month?: MonthlyQuota
+}
+
+export type RateLimitOptions = {
+  algorithm?: RateLimitAlgorithm
+  burst?: BurstConfig
+  cost?: number // quota units this request consumes, defaults to 1
+  month?: MonthlyQuota
+  organization?: OrganizationQuota // shared limits across all of the organization's keys
+  maxDelayMs?: number // wait up to this long for a slot instead of rejecting, defaults to 0
+  timeZone?: string // IANA zone whose midnight resets the day and billing-period windows, defaults to UTC
+}
+
+export type LimitedBy = "burst" | "minute" | "day" | "month"
+
+export type LimitedScope = "key" | "organization"
+
+type WindowResult = {
+  minuteCount: number
+  dayCount: number
+  monthCount: number
+  limitedBy: LimitedBy | null
+  limitedScope?: LimitedScope
+  retryAfterMs: number
+  resetAfterMs: number
+  delayMs?: number // wait for a reserved GCRA slot
+  chargedKeys?: string[] // fixed-window counters the request was charged to, rejected or not
+}
+
+// Sliding windows read the previous minute, so keep it around for two windows
+const SLIDING_MINUTE_TTL_MS = 150 * 1000
+// Sliding-window weights are sent rounded to 4 places, a step of 6ms in a minute;
+// waits run this much longer so the rounded weight is past the one needed
+const WEIGHT_ROUNDING_MS = 6
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function toLimitedBy(over: number): LimitedBy | null {
+  return over === 3 ? "month" : over === 2 ? "day" : over === 1 ? "minute" : null
+}
+
+/**
+ * Milliseconds until the current minute, day or billing-period bucket rolls over
+ * (day and billing period in the given time zone)
+ */
+export function msUntilWindowEnd(
+  window: "minute" | "day" | "month",
+  now: Date,
+  anchorDay: number = 1,
+  timeZone: string = DEFAULT_TIME_ZONE
+): number {
+  if (window === "month") {
+    return getBillingPeriodEnd(now, anchorDay, timeZone).getTime() - now.getTime()
+  }
+  if (window === "day") {
+    return getDayEnd(now, timeZone).getTime() - now.getTime()
+  }
+  const next = new Date(now)
+  next.setUTCSeconds(60, 0)
+  return next.getTime() - now.getTime()
+}
+
+/**
+ * Billing-period key and script arguments, appended only when a monthly quota applies
+ */
+function monthScriptArgs(
+  apiKey: string,
+  month: MonthlyQuota | undefined,
+  now: Date,
+  timeZone: string
+): { keys: string[]; args: string[] } {
+  if (!month) {
+    return { keys: [], args: [] }
+  }
+  // Keep the counter a day past the period end so late reads still see it
+  const ttl = msUntilWindowEnd("month", now, month.anchorDay, timeZone) + 24 * 60 * 60 * 1000
+  return {
+    keys: [getMonthKey(apiKey, now, month.anchorDay, timeZone)],
+    args: [ttl.toString(), month.limit.toString()],
+  }
+}
+
+/**
+ * Retry and reset hints for the calendar-bucket algorithms
+ */
+function windowTiming(
+  limitedBy: LimitedBy | null,
+  now: Date,
+  month: MonthlyQuota | undefined,
+  timeZone: string
+): { retryAfterMs: number; resetAfterMs: number } {
+  const window = limitedBy === "month" || limitedBy === "day" ? limitedBy : "minute"
+  const resetAfterMs = msUntilWindowEnd(window, now, month?.anchorDay, timeZone)
+  return {
+    retryAfterMs: limitedBy ? resetAfterMs : 0,
+    resetAfterMs,
+  }
+}
+
 export type RateLimitResult = {
   minuteCount: number
   dayCount: number
+  monthCount: number
   isOverLimit: boolean
+  limitedBy: LimitedBy | null
+  limitedScope: LimitedScope | null
+  burstRemaining: number | null
+  retryAfterMs: number
+  resetAfterMs: number
+  delayMs: number // how long the request waited for its slot in delay mode
+  chargedKeys: string[] // fixed-window counters the request was charged to, for refundRateLimit
+}
+
+/**
+ * Take one token from the key's bucket, refilling at ratePerSecond up to burstLimit
+ */
+async function consumeBurstToken(
+  apiKey: string,
+  burst: BurstConfig,
+  cost: number,
+  maxDelayMs: number
+): Promise<{ allowed: boolean; remaining: number; retryAfterMs: number; delayMs: number }> {
+  const storage = getStorage()
+
+  const result = await storage.runScript(
+    tokenBucketScript,
+    [getBucketKey(apiKey)],
+    [
+      burst.ratePerSecond.toString(),
+      burst.burstLimit.toString(),
+      Date.now().toString(),
+      cost.toString(),
+      maxDelayMs.toString(),
+    ]
+  )
+
+  return {
+    allowed: result[0] === 1,
+    remaining: result[1],
+    retryAfterMs: result[2],
+    delayMs: result[3],
+  }
 }
 
 export async function checkRateLimit(
   apiKey: string,
   minuteLimit: number,
-  dayLimit: number
+  dayLimit: number,
+  options: RateLimitOptions = {}
 ): Promise<RateLimitResult> {
-  const redis = getRedisClient()
-
-  const minuteKey = getMinuteKey(apiKey)
-  const dayKey = getDayKey(apiKey)
-
-  // TTLs: 90 seconds for minute window, 25 hours for day window
-  const minuteTTL = 90 * 1000
-  const dayTTL = 25 * 60 * 60 * 1000
-
-  const result = (await redis.eval(
-    rateLimitLuaScript,
-    2,
-    minuteKey,
-    dayKey,
-    minuteTTL.toString(),
-    dayTTL.toString(),
-    minuteLimit.toString(),
-    dayLimit.toString()
-  )) as [number, number, number]
+  const cost = options.cost ?? 1
+  const maxDelayMs = options.maxDelayMs ?? 0
+  const timeZone = options.timeZone ?? DEFAULT_TIME_ZONE
+  let delayMs = 0
+
+  // Burst check runs first so spikes are rejected before window counters move
+  let burstRemaining: number | null = null
+  if (options.burst && options.burst.ratePerSecond > 0 && options.burst.burstLimit > 0) {
+    const bucket = await consumeBurstToken(apiKey, options.burst, cost, maxDelayMs)
+    burstRemaining = bucket.remaining
+
+    if (!bucket.allowed) {
+      const usage = await getCurrentUsage(apiKey, options.month?.anchorDay, timeZone)
+      return {
+        minuteCount: usage.minute,
+        dayCount: usage.day,
+        monthCount: usage.month,
+        isOverLimit: true,
+        limitedBy: "burst",
+        limitedScope: "key",
+        burstRemaining,
+        retryAfterMs: bucket.retryAfterMs,
+        resetAfterMs: bucket.retryAfterMs,
+        delayMs: 0,
+        chargedKeys: [],
+      }
+    }
+
+    if (bucket.delayMs > 0) {
+      await sleep(bucket.delayMs)
+      delayMs += bucket.delayMs
+    }
+  }
+
+  const checkKeyWindows = (): Promise<WindowResult> => {
+    switch (options.algorithm) {
+      case "sliding-window":
+        return checkSlidingWindow(apiKey, minuteLimit, dayLimit, cost, options.month, timeZone)
+      case "gcra":
+        return checkGcra(
+          apiKey,
+          minuteLimit,
+          dayLimit,
+          cost,
+          options.month,
+          timeZone,
+          maxDelayMs - delayMs
+        )
+      default:
+        return checkFixedWindow(apiKey, minuteLimit, dayLimit, cost, options.month, timeZone)
+    }
+  }
+
+  const checkWindows = (): Promise<WindowResult> => {
+    if (!options.organization) {
+      return checkKeyWindows()
+    }
+    // A fixed-window key's counters are checked and charged together with the
+    // organization's in one script; the other algorithms keep their own state
+    if (!options.algorithm || options.algorithm === "fixed-window") {
+      return checkSharedQuota(
+        apiKey,
+        minuteLimit,
+        dayLimit,
+        cost,
+        options.month,
+        timeZone,
+        options.organization
+      )
+    }
+    return checkOrganizationFirst(
+      apiKey,
+      cost,
+      options.month,
+      timeZone,
+      options.organization,
+      checkKeyWindows
+    )
+  }
+
+  let windows = await checkWindows()
+
+  if (windows.delayMs) {
+    await sleep(windows.delayMs)
+    delayMs += windows.delayMs
+  } else if (
+    windows.limitedBy === "minute" &&
+    options.algorithm !== "gcra" &&
+    windows.retryAfterMs <= maxDelayMs - delayMs
+  ) {
+    // Only GCRA can reserve a slot, so wait until the minute limit has room and try once more
+    if (windows.chargedKeys) {
+      // The retry counts the same request again, so hand back what the rejected attempt took
+      await getStorage().runScript(refundScript, windows.chargedKeys, [cost.toString()])
+    }
+    await sleep(windows.retryAfterMs)
+    delayMs += windows.retryAfterMs
+    windows = await checkWindows()
+  }
 
+  return {
+    ...windows,
+    isOverLimit: windows.limitedBy !== null,
+    limitedScope: windows.limitedBy === null ? null : windows.limitedScope ?? "key",
+    burstRemaining,
+    delayMs,
+    chargedKeys: windows.chargedKeys ?? [],
+  }
+}
+
+/**
+ * Hand back the units a fixed-window check charged, for a request a later
+ * check turned away
+ * Other algorithms only charge requests they allow and are not refunded.
+ */
+export async function refundRateLimit(result: RateLimitResult, cost: number): Promise<void> {
+  if (result.chargedKeys.length === 0) {
+    return
+  }
+  await getStorage().runScript(refundScript, result.chargedKeys, [cost.toString()])
+}
+
+type QuotaWindow = { scope: LimitedScope; window: LimitedBy; key: string; limit: number; ttl: number }
+
+/**
+ * On Redis Cluster the key's and the organization's counters sit in different
+ * slots, so each scope is charged by its own script run. The key's windows are
+ * refunded if the organization turns out to be out of room, which keeps the
+ * shared quota script's guarantee at the cost of a brief overcount.
+ *
+ * Returns the shared quota script's reply for the full list of windows.
+ */
+async function chargeAcrossSlots(windows: QuotaWindow[], cost: number): Promise<number[]> {
+  const storage = getStorage()
+
+  const counts = windows.map(() => 0)
+  const charged: number[] = []
+
+  for (const scope of ["key", "organization"] as const) {
+    const indices = windows.flatMap((w, i) => (w.scope === scope ? [i] : []))
+    const result = await storage.runScript(
+      sharedQuotaScript,
+      indices.map((i) => windows[i].key),
+      [
+        cost.toString(),
+        ...indices.flatMap((i) => [windows[i].limit.toString(), windows[i].ttl.toString()]),
+      ]
+    )
+    indices.forEach((windowIndex, i) => {
+      counts[windowIndex] = result[i + 1]
+    })
+
+    if (result[0] > 0) {
+      if (charged.length > 0) {
+        await storage.runScript(
+          refundScript,
+          charged.map((i) => windows[i].key),
+          [cost.toString()]
+        )
+        charged.forEach((i) => {
+          counts[i] -= cost
+        })
+      }
+      return [indices[result[0] - 1] + 1, ...counts]
+    }
+    charged.push(...indices)
+  }
+
+  return [0, ...counts]
+}
+
+/**
+ * The organization's calendar windows
+ * They are shared by keys in different time zones, so they always reset on UTC
+ * boundaries.
+ */
+function getOrganizationWindows(organization: OrganizationQuota, now: Date): QuotaWindow[] {
+  const organizationScope = getOrganizationScope(organization.id)
+  const windows: QuotaWindow[] = [
+    {
+      scope: "organization",
+      window: "minute",
+      key: getMinuteKey(organizationScope, now),
+      limit: organization.perMinute,
+      ttl: MINUTE_TTL_MS,
+    },
+    {
+      scope: "organization",
+      window: "day",
+      key: getDayKey(organizationScope, now),
+      limit: organization.perDay,
+      ttl: DAY_TTL_MS,
+    },
+  ]
+
+  const monthly = monthScriptArgs(organizationScope, organization.month, now, DEFAULT_TIME_ZONE)
+  if (organization.month) {
+    windows.push({
+      scope: "organization",
+      window: "month",
+      key: monthly.keys[0],
+      limit: organization.month.limit,
+      ttl: parseInt(monthly.args[0], 10),
+    })
+  }
+  return windows
+}
+
+/**
+ * Count the request against the organization's windows, then against the
+ * key's own sliding-window or GCRA limits
+ *
+ * The key's algorithm keeps its own state, so the two cannot be charged in one
+ * script: the organization is charged first and refunded if the key's limits
+ * turn the request away, at the cost of a brief overcount.
+ */
+async function checkOrganizationFirst(
+  apiKey: string,
+  cost: number,
+  month: MonthlyQuota | undefined,
+  timeZone: string,
+  organization: OrganizationQuota,
+  checkKeyWindows: () => Promise<WindowResult>
+): Promise<WindowResult> {
+  const storage = getStorage()
+
+  const now = new Date()
+  const windows = getOrganizationWindows(organization, now)
+  const keys = windows.map((w) => w.key)
+  const result = await storage.runScript(
+    sharedQuotaScript,
+    keys,
+    [cost.toString(), ...windows.flatMap((w) => [w.limit.toString(), w.ttl.toString()])]
+  )
+
+  if (result[0] > 0) {
+    const limitedBy = windows[result[0] - 1].window
+    const usage = await getCurrentUsage(apiKey, month?.anchorDay, timeZone)
+    return {
+      minuteCount: usage.minute,
+      dayCount: usage.day,
+      monthCount: usage.month,
+      limitedBy,
+      limitedScope: "organization",
+      ...windowTiming(limitedBy, now, organization.month, DEFAULT_TIME_ZONE),
+    }
+  }
+
+  const keyResult = await checkKeyWindows()
+  if (keyResult.limitedBy) {
+    await storage.runScript(refundScript, keys, [cost.toString()])
+  }
+  return keyResult
+}
+
+/**
+ * Count the request against the key's and its organization's calendar windows
+ * atomically; nothing is charged unless every window has room
+ */
+async function checkSharedQuota(
+  apiKey: string,
+  minuteLimit: number,
+  dayLimit: number,
+  cost: number,
+  month: MonthlyQuota | undefined,
+  timeZone: string,
+  organization: OrganizationQuota
+): Promise<WindowResult> {
+  const storage = getStorage()
+
+  const now = new Date()
+  const windows: QuotaWindow[] = [
+    { scope: "key", window: "minute", key: getMinuteKey(apiKey, now), limit: minuteLimit, ttl: MINUTE_TTL_MS },
+    { scope: "key", window: "day", key: getDayKey(apiKey, now, timeZone), limit: dayLimit, ttl: DAY_TTL_MS },
+  ]
+
+  const monthly = monthScriptArgs(apiKey, month, now, timeZone)
+  if (month) {
+    windows.push({
+      scope: "key",
+      window: "month",
+      key: monthly.keys[0],
+      limit: month.limit,
+      ttl: parseInt(monthly.args[0], 10),
+    })
+  }
+  windows.push(...getOrganizationWindows(organization, now))
+
+  const result =
+    storage.kind === "redis" && env.REDIS_MODE === "cluster"
+      ? await chargeAcrossSlots(windows, cost)
+      : await storage.runScript(
+          sharedQuotaScript,
+          windows.map((w) => w.key),
+          [cost.toString(), ...windows.flatMap((w) => [w.limit.toString(), w.ttl.toString()])]
+        )
+
+  const violated = result[0] > 0 ? windows[result[0] - 1] : null
+  const limitedBy = violated?.window ?? null
+  // A violation resets on the calendar of whichever scope hit it
+  const timing =
+    violated?.scope === "organization"
+      ? windowTiming(limitedBy, now, organization.month, DEFAULT_TIME_ZONE)
+      : windowTiming(limitedBy, now, month, timeZone)
+  return {
+    minuteCount: result[1],
+    dayCount: result[2],
+    monthCount: month ? result[3] : 0,
+    limitedBy,
+    limitedScope: violated?.scope,
+    ...timing,
+  }
+}
+
+/**
+ * Count the request in calendar minute and day buckets
+ */
+async function checkFixedWindow(
+  apiKey: string,
+  minuteLimit: number,
+  dayLimit: number,
+  cost: number,
+  month: MonthlyQuota | undefined,
+  timeZone: string
+): Promise<WindowResult> {
+  const storage = getStorage()
+
+  const now = new Date()
+  const monthly = monthScriptArgs(apiKey, month, now, timeZone)
+  const keys = [getMinuteKey(apiKey, now), getDayKey(apiKey, now, timeZone), ...monthly.keys]
+
+  const result = await storage.runScript(
+    rateLimitScript,
+    keys,
+    [
+      MINUTE_TTL_MS.toString(),
+      DAY_TTL_MS.toString(),
+      minuteLimit.toString(),
+      dayLimit.toString(),
+      cost.toString(),
+      ...monthly.args,
+    ]
+  )
+
+  const limitedBy = toLimitedBy(result[2])
+  return {
+    minuteCount: result[0],
+    dayCount: result[1],
+    monthCount: result[3],
+    limitedBy,
+    ...windowTiming(limitedBy, now, month, timeZone),
+    // The script counts every request, including the ones it rejects
+    chargedKeys: keys,
+  }
+}
+
+/**
+ * Estimate the last 60 seconds from the current and previous minute buckets,
+ * weighting the previous one by how much of it still overlaps the window
+ */
+async function checkSlidingWindow(
+  apiKey: string,
+  minuteLimit: number,
+  dayLimit: number,
+  cost: number,
+  month: MonthlyQuota | undefined,
+  timeZone: string
+): Promise<WindowResult> {
+  const storage = getStorage()
+
+  const now = new Date()
+  const elapsedInMinute = (now.getUTCSeconds() * 1000 + now.getUTCMilliseconds()) / 60000
+  const previousWeight = 1 - elapsedInMinute
+
+  const monthly = monthScriptArgs(apiKey, month, now, timeZone)
+  const keys = [
+    getMinuteKey(apiKey, now),
+    getMinuteKey(apiKey, new Date(now.getTime() - 60 * 1000)),
+    getDayKey(apiKey, now, timeZone),
+    ...monthly.keys,
+  ]
+
+  const result = await storage.runScript(
+    slidingWindowScript,
+    keys,
+    [
+      SLIDING_MINUTE_TTL_MS.toString(),
+      DAY_TTL_MS.toString(),
+      minuteLimit.toString(),
+      dayLimit.toString(),
+      previousWeight.toFixed(4),
+      cost.toString(),
+      ...monthly.args,
+    ]
+  )
+
+  const limitedBy = toLimitedBy(result[2])
+  const timing = windowTiming(limitedBy, now, month, timeZone)
+  if (limitedBy === "minute") {
+    // The estimate falls as the previous minute slides out, not at the minute's end
+    timing.retryAfterMs = slidingWindowWait(result[4], result[5], minuteLimit, cost, now)
+  }
   return {
     minuteCount: result[0],
     dayCount: result[1],
-    isOverLimit: result[2] === 1,
+    monthCount: result[3],
+    limitedBy,
+    ...timing,
+  }
+}
+
+/**
+ * Milliseconds until a sliding window has room for cost more units
+ *
+ * The previous minute's weight falls linearly over the current one, so the wait
+ * ends once floor(previous * weight) + current + cost is within the limit. When
+ * the current minute alone is too full, it becomes the previous one at the next
+ * minute and is waited out the same way.
+ */
+function slidingWindowWait(
+  current: number,
+  previous: number,
+  minuteLimit: number,
+  cost: number,
+  now: Date
+): number {
+  const msIntoMinute = now.getUTCSeconds() * 1000 + now.getUTCMilliseconds()
+  const msLeftInMinute = 60 * 1000 - msIntoMinute
+  const fitsThisMinute = current + cost <= minuteLimit
+  const bucket = fitsThisMinute ? previous : current
+  const room = minuteLimit - cost - (fitsThisMinute ? current : 0)
+
+  if (room < 0) {
+    // The request costs more than the whole limit, so no wait makes room
+    return msLeftInMinute
+  }
+
+  // floor(bucket * weight) <= room once the weight drops below (room + 1) / bucket
+  const msIntoWindow =
+    bucket <= room ? 0 : Math.ceil((60 * 1000 * (bucket - room - 1)) / bucket) + WEIGHT_ROUNDING_MS
+  return fitsThisMinute
+    ? Math.min(msLeftInMinute, Math.max(0, msIntoWindow - msIntoMinute))
+    : msLeftInMinute + msIntoWindow
+}
+
+/**
+ * Space requests evenly at minuteLimit per minute while allowing the whole
+ * minute's quota as a burst; only the theoretical arrival time is stored
+ */
+async function checkGcra(
+  apiKey: string,
+  minuteLimit: number,
+  dayLimit: number,
+  cost: number,
+  month: MonthlyQuota | undefined,
+  timeZone: string,
+  maxDelayMs: number
+): Promise<WindowResult> {
+  const storage = getStorage()
+
+  const now = new Date()
+  const period = 60 * 1000
+  const interval = period / minuteLimit
+
+  const monthly = monthScriptArgs(apiKey, month, now, timeZone)
+  const keys = [getGcraKey(apiKey), getDayKey(apiKey, now, timeZone), ...monthly.keys]
+
+  const result = await storage.runScript(
+    gcraScript,
+    keys,
+    [
+      interval.toString(),
+      period.toString(),
+      now.getTime().toString(),
+      DAY_TTL_MS.toString(),
+      dayLimit.toString(),
+      cost.toString(),
+      maxDelayMs.toString(),
+      ...monthly.args,
+    ]
+  )
+
+  const limitedBy = toLimitedBy(result[2])
+  // Day and month limits are calendar buckets, so their hints come from the bucket end
+  const calendarWait =
+    limitedBy === "day" || limitedBy === "month"
+      ? msUntilWindowEnd(limitedBy, now, month?.anchorDay, timeZone)
+      : null
+  return {
+    minuteCount: minuteLimit - result[0],
+    dayCount: result[1],
+    monthCount: result[5],
+    limitedBy,
+    retryAfterMs: calendarWait ?? result[3],
+    resetAfterMs: calendarWait ?? result[4],
+    delayMs: result[6],
   }
 }
 
@@ -69,20 +1092,26 @@ export async function checkRateLimit(
  * Get current usage counts without incrementing
  */
 export async function getCurrentUsage(
-  apiKey: string
-): Promise<{ minute: number; day: number }> {
-  const redis = getRedisClient()
+  apiKey: string,
+  billingAnchorDay: number = 1,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Promise<{ minute: number; day: number; month: number }> {
+  const storage = getStorage()
 
-  const minuteKey = getMinuteKey(apiKey)
-  const dayKey = getDayKey(apiKey)
+  const now = new Date()
+  const minuteKey = getMinuteKey(apiKey, now)
+  const dayKey = getDayKey(apiKey, now, timeZone)
+  const monthKey = getMonthKey(apiKey, now, billingAnchorDay, timeZone)
 
-  const [minuteCount, dayCount] = await Promise.all([
-    redis.get(minuteKey),
-    redis.get(dayKey),
+  const [minuteCount, dayCount, monthCount] = await Promise.all([
+    storage.get(minuteKey),
+    storage.get(dayKey),
+    storage.get(monthKey),
   ])
 
   return {
     minute: minuteCount ? parseInt(minuteCount, 10) : 0,
     day: dayCount ? parseInt(dayCount, 10) : 0,
+    month: monthCount ? parseInt(monthCount, 10) : 0,
   }
 }
@@ -0,0 +1,90 @@
+import { Cluster } from "ioredis"
+import { getRegisteredScripts, getScript, registerScript } from "@/lib/storage/script-registry"
+import type { StorageScript } from "@/lib/storage/types"
+import { getRedisClient, type RedisClient } from "./client"
+
+export { getScript, registerScript } from "@/lib/storage/script-registry"
+
+/**
+ * Runs the registered Lua scripts on ioredis
+ *
+ * Scripts are defined on the client once with ioredis `defineCommand`, which
+ * sends the full source only the first time on each connection and calls it by
+ * SHA1 with EVALSHA from then on, so the hot path no longer ships the Lua
+ * source with every request.
+ */
+
+// Scripts already defined on each client; a reconnect builds a new client
+const definedScripts = new WeakMap<RedisClient, WeakSet<StorageScript<unknown>>>()
+
+type ScriptCommand = (numberOfKeys: number, ...keysAndArgs: string[]) => Promise<unknown>
+
+/**
+ * Define every registered script on the client that it does not have yet
+ */
+function defineScripts(client: RedisClient): void {
+  let defined = definedScripts.get(client)
+  if (!defined) {
+    defined = new WeakSet()
+    definedScripts.set(client, defined)
+  }
+
+  const all = getRegisteredScripts()
+  for (const script of all) {
+    if (!defined.has(script)) {
+      client.defineCommand(script.name, { lua: script.lua })
+      defined.add(script)
+    }
+  }
+}
+
+/**
+ * Load every registered script into the server's script cache
+ * On a cluster each master keeps its own cache, so all of them are loaded.
+ */
+export async function loadScripts(client: RedisClient = getRedisClient()): Promise<void> {
+  defineScripts(client)
+
+  const nodes = client instanceof Cluster ? client.nodes("master") : [client]
+  const all = getRegisteredScripts()
+  await Promise.all(
+    nodes.flatMap((node) => all.map((script) => node.script("LOAD", script.lua)))
+  )
+  console.log(`📜 Loaded ${all.length} Lua scripts on ${nodes.length} node(s)`)
+}
+
+function isNoScriptError(err: unknown): boolean {
+  return err instanceof Error && err.message.includes("NOSCRIPT")
+}
+
+/**
+ * Run a registered script by SHA
+ *
+ * ioredis already resends a script once when the server replies NOSCRIPT. If
+ * that also fails (the cache was flushed again, or a failover promoted a
+ * replica without it) every script is reloaded and the call retried once.
+ */
+export async function evalScript<T>(
+  script: StorageScript<T>,
+  keys: string[],
+  args: string[]
+): Promise<T> {
+  if (!getScript(script.name)) {
+    registerScript(script)
+  }
+
+  const client = getRedisClient()
+  defineScripts(client)
+
+  const command = (client as unknown as Record<string, ScriptCommand>)[script.name]
+  try {
+    return (await command.call(client, keys.length, ...keys, ...args)) as T
+  } catch (err) {
+    if (!isNoScriptError(err)) {
+      throw err
+    }
+    console.warn(`Script ${script.name} missing from the Redis script cache, reloading`)
+    await loadScripts(client)
+    return (await command.call(client, keys.length, ...keys, ...args)) as T
+  }
+}
@@ -0,0 +1,92 @@
+import { getStorage } from '@/lib/storage'
+import { AdaptiveLimitsConfig, LoadSheddingConfig, PenaltyBoxConfig } from '@/lib/db/settings'
+
+const storage = getStorage()
+
+const LOAD_SHEDDING_KEY = 'settings:load-shedding'
+const PENALTY_BOX_KEY = 'settings:penalty-box'
+const ADAPTIVE_LIMITS_KEY = 'settings:adaptive-limits'
+
+/**
+ * Store the load shedding configuration in Redis
+ */
+export async function storeLoadSheddingConfig(config: LoadSheddingConfig): Promise<void> {
+  await storage.hset(LOAD_SHEDDING_KEY, {
+    globalRpsLimit: config.globalRpsLimit.toString(),
+    tierPriority: config.tierPriority.join(','),
+  })
+}
+
+/**
+ * Get the load shedding configuration from Redis
+ */
+export async function getStoredLoadSheddingConfig(): Promise<LoadSheddingConfig | null> {
+  const data = await storage.hgetall(LOAD_SHEDDING_KEY)
+
+  if (!data || Object.keys(data).length === 0) {
+    return null
+  }
+
+  return {
+    globalRpsLimit: parseInt(data.globalRpsLimit || '0'),
+    tierPriority: data.tierPriority ? data.tierPriority.split(',') : [],
+  }
+}
+
+/**
+ * Store the penalty box rule in Redis
+ */
+export async function storePenaltyBoxConfig(config: PenaltyBoxConfig): Promise<void> {
+  await storage.hset(PENALTY_BOX_KEY, {
+    blockThreshold: config.blockThreshold.toString(),
+    windowSeconds: config.windowSeconds.toString(),
+    banSeconds: config.banSeconds.toString(),
+  })
+}
+
+/**
+ * Get the penalty box rule from Redis
+ */
+export async function getStoredPenaltyBoxConfig(): Promise<PenaltyBoxConfig | null> {
+  const data = await storage.hgetall(PENALTY_BOX_KEY)
+
+  if (!data || Object.keys(data).length === 0) {
+    return null
+  }
+
+  return {
+    blockThreshold: parseInt(data.blockThreshold || '0'),
+    windowSeconds: parseInt(data.windowSeconds || '0'),
+    banSeconds: parseInt(data.banSeconds || '0'),
+  }
+}
+
+/**
+ * Store the adaptive limits configuration in Redis
+ */
+export async function storeAdaptiveLimitsConfig(config: AdaptiveLimitsConfig): Promise<void> {
+  await storage.hset(ADAPTIVE_LIMITS_KEY, {
+    targetP95Ms: config.targetP95Ms.toString(),
+    minFactor: config.minFactor.toString(),
+    decreaseFactor: config.decreaseFactor.toString(),
+    increaseStep: config.increaseStep.toString(),
+  })
+}
+
+/**
+ * Get the adaptive limits configuration from Redis
+ */
+export async function getStoredAdaptiveLimitsConfig(): Promise<AdaptiveLimitsConfig | null> {
+  const data = await storage.hgetall(ADAPTIVE_LIMITS_KEY)
+
+  if (!data || Object.keys(data).length === 0) {
+    return null
+  }
+
+  return {
+    targetP95Ms: parseInt(data.targetP95Ms || '0'),
+    minFactor: parseFloat(data.minFactor || '0.1'),
+    decreaseFactor: parseFloat(data.decreaseFactor || '0.7'),
+    increaseStep: parseFloat(data.increaseStep || '0.05'),
+  }
+}
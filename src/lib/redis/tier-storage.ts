@@ -1,5 +1,8 @@
-import { redis } from './client'
+import { getStorage } from '@/lib/storage'
 import { Tier } from '@/lib/db/api-keys'
+import type { RateLimitAlgorithm } from './rate-limiter'
+
+const storage = getStorage()
 
 const TIER_PREFIX = 'tier:'
 const TIER_SET_KEY = 'tiers:all'
@@ -10,15 +13,22 @@ const TIER_SET_KEY = 'tiers:all'
 export async function storeTier(tier: Tier): Promise<void> {
   const key = `${TIER_PREFIX}${tier.id}`
   
-  await redis.hset(key, {
+  await storage.hset(key, {
     id: tier.id,
     name: tier.name,
     rateLimit: tier.rateLimit.toString(),
     burstLimit: tier.burstLimit.toString(),
+    algorithm: tier.algorithm ?? 'fixed-window',
+    maxConcurrency: (tier.maxConcurrency ?? 0).toString(),
+    monthlyQuota: (tier.monthlyQuota ?? 0).toString(),
+    shadowMode: tier.shadowMode ? 'true' : 'false',
+    warningThresholds: (tier.warningThresholds ?? []).join(','),
+    maxDelayMs: (tier.maxDelayMs ?? 0).toString(),
+    timeZone: tier.timeZone ?? 'UTC',
   })
   
   // Add to the set of all tier IDs
-  await redis.sadd(TIER_SET_KEY, tier.id)
+  await storage.sadd(TIER_SET_KEY, tier.id)
 }
 
 /**
@@ -26,7 +36,7 @@ export async function storeTier(tier: Tier): Promise<void> {
  */
 export async function getStoredTier(id: string): Promise<Tier | null> {
   const key = `${TIER_PREFIX}${id}`
-  const data = await redis.hgetall(key)
+  const data = await storage.hgetall(key)
   
   if (!data || Object.keys(data).length === 0) {
     return null
@@ -37,6 +47,15 @@ export async function getStoredTier(id: string): Promise<Tier | null> {
     name: data.name,
     rateLimit: parseInt(data.rateLimit),
     burstLimit: parseInt(data.burstLimit),
+    algorithm: (data.algorithm as RateLimitAlgorithm) || 'fixed-window',
+    maxConcurrency: parseInt(data.maxConcurrency || '0'),
+    monthlyQuota: parseInt(data.monthlyQuota || '0'),
+    shadowMode: data.shadowMode === 'true',
+    warningThresholds: data.warningThresholds
+      ? data.warningThresholds.split(',').map((t) => parseInt(t))
+      : [],
+    maxDelayMs: parseInt(data.maxDelayMs || '0'),
+    timeZone: data.timeZone || 'UTC',
   }
 }
 
@@ -44,7 +63,7 @@ export async function getStoredTier(id: string): Promise<Tier | null> {
  * Get all tiers from Redis
  */
 export async function getAllStoredTiers(): Promise<Tier[]> {
-  const tierIds = await redis.smembers(TIER_SET_KEY)
+  const tierIds = await storage.smembers(TIER_SET_KEY)
   
   if (tierIds.length === 0) {
     return []
@@ -66,13 +85,13 @@ export async function getAllStoredTiers(): Promise<Tier[]> {
  */
 export async function deleteStoredTier(id: string): Promise<void> {
   const key = `${TIER_PREFIX}${id}`
-  await redis.del(key)
-  await redis.srem(TIER_SET_KEY, id)
+  await storage.del(key)
+  await storage.srem(TIER_SET_KEY, id)
 }
 
 /**
  * Check if a tier exists in Redis
  */
 export async function tierExists(id: string): Promise<boolean> {
-  return await redis.sismember(TIER_SET_KEY, id) === 1
+  return await storage.sismember(TIER_SET_KEY, id)
 }
@@ -0,0 +1,27 @@
+import { env } from "@/lib/env"
+import { createMemoryStorage } from "./memory-storage"
+import { createRedisStorage } from "./redis-storage"
+import type { StorageBackend } from "./types"
+
+export type {
+  ScriptContext,
+  SetOptions,
+  StorageBackend,
+  StorageBackendKind,
+  StorageScript,
+  StreamEntry,
+} from "./types"
+
+let storageInstance: StorageBackend | null = null
+
+/**
+ * Storage backend selected by STORAGE_BACKEND ("redis" or "memory")
+ */
+export function getStorage(): StorageBackend {
+  if (!storageInstance) {
+    storageInstance = env.STORAGE_BACKEND === "memory" ? createMemoryStorage() : createRedisStorage()
+    console.log(`Using ${storageInstance.kind} storage backend`)
+  }
+
+  return storageInstance
+}
@@ -0,0 +1,281 @@
+import type {
+  ScriptContext,
+  SetOptions,
+  StorageBackend,
+  StreamEntry,
+} from "./types"
+
+/**
+ * In-process storage backend for tests and single-instance deployments
+ * Every operation runs synchronously on one event loop, so scripts are
+ * atomic here just as Lua scripts are on a Redis server.
+ */
+
+type Entry =
+  | { type: "string"; value: string; expiresAt: number | null }
+  | { type: "hash"; value: Map<string, string>; expiresAt: number | null }
+  | { type: "set"; value: Set<string>; expiresAt: number | null }
+  | { type: "zset"; value: Map<string, number>; expiresAt: number | null }
+  | { type: "stream"; value: StreamEntry[]; expiresAt: number | null }
+
+type EntryOf<T extends Entry["type"]> = Extract<Entry, { type: T }>
+
+// Expired keys are dropped lazily on access and swept after this many writes
+const SWEEP_EVERY_WRITES = 1000
+
+/**
+ * Convert a script's return value the way Redis converts Lua replies:
+ * numbers are truncated to integers and tables become arrays
+ */
+function toReply(value: unknown): unknown {
+  if (typeof value === "number") {
+    return Math.trunc(value)
+  }
+  if (Array.isArray(value)) {
+    return value.map(toReply)
+  }
+  return value
+}
+
+export function createMemoryStorage(): StorageBackend {
+  const entries = new Map<string, Entry>()
+  let writes = 0
+  let lastStreamMs = 0
+  let streamSequence = 0
+
+  function sweep(now: number) {
+    const all = Array.from(entries.entries())
+    for (const [key, entry] of all) {
+      if (entry.expiresAt !== null && entry.expiresAt <= now) {
+        entries.delete(key)
+      }
+    }
+  }
+
+  function countWrite() {
+    writes++
+    if (writes % SWEEP_EVERY_WRITES === 0) {
+      sweep(Date.now())
+    }
+  }
+
+  function lookup(key: string): Entry | null {
+    const entry = entries.get(key)
+    if (!entry) {
+      return null
+    }
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      entries.delete(key)
+      return null
+    }
+    return entry
+  }
+
+  function read<T extends Entry["type"]>(key: string, type: T): EntryOf<T> | null {
+    const entry = lookup(key)
+    if (entry && entry.type !== type) {
+      throw new Error("WRONGTYPE Operation against a key holding the wrong kind of value")
+    }
+    return entry as EntryOf<T> | null
+  }
+
+  function write<T extends Entry["type"]>(key: string, type: T, create: () => EntryOf<T>["value"]): EntryOf<T> {
+    countWrite()
+    const existing = read(key, type)
+    if (existing) {
+      return existing
+    }
+    const entry = { type, value: create(), expiresAt: null } as unknown as EntryOf<T>
+    entries.set(key, entry)
+    return entry
+  }
+
+  const ctx: ScriptContext = {
+    get(key) {
+      return read(key, "string")?.value ?? null
+    },
+
+    set(key, value, options: SetOptions = {}) {
+      if (options.onlyIfAbsent && lookup(key)) {
+        return false
+      }
+      countWrite()
+      entries.set(key, {
+        type: "string",
+        value,
+        expiresAt: options.ttlMs ? Date.now() + options.ttlMs : null,
+      })
+      return true
+    },
+
+    del(key) {
+      const existed = lookup(key) !== null
+      entries.delete(key)
+      return existed ? 1 : 0
+    },
+
+    incrby(key, increment) {
+      const entry = write(key, "string", () => "0")
+      const current = parseInt(entry.value, 10)
+      if (isNaN(current)) {
+        throw new Error("ERR value is not an integer or out of range")
+      }
+      entry.value = (current + increment).toString()
+      return current + increment
+    },
+
+    pexpire(key, ttlMs) {
+      const entry = lookup(key)
+      if (entry) {
+        entry.expiresAt = Date.now() + ttlMs
+      }
+    },
+
+    hget(key, field) {
+      return read(key, "hash")?.value.get(field) ?? null
+    },
+
+    hmget(key, ...fields) {
+      const hash = read(key, "hash")?.value
+      return fields.map((field) => hash?.get(field) ?? null)
+    },
+
+    hset(key, fields) {
+      const entry = write(key, "hash", () => new Map())
+      for (const [field, value] of Object.entries(fields)) {
+        entry.value.set(field, value)
+      }
+    },
+
+    hincrby(key, field, increment) {
+      const entry = write(key, "hash", () => new Map())
+      const next = parseInt(entry.value.get(field) ?? "0", 10) + increment
+      entry.value.set(field, next.toString())
+      return next
+    },
+
+    sadd(key, ...members) {
+      const entry = write(key, "set", () => new Set())
+      for (const member of members) {
+        entry.value.add(member)
+      }
+    },
+
+    zadd(key, score, member) {
+      write(key, "zset", () => new Map()).value.set(member, score)
+    },
+
+    zcard(key) {
+      return read(key, "zset")?.value.size ?? 0
+    },
+
+    zremrangebyscore(key, min, max) {
+      const zset = read(key, "zset")?.value
+      if (!zset) {
+        return 0
+      }
+      let removed = 0
+      const members = Array.from(zset.entries())
+      for (const [member, score] of members) {
+        if (score >= min && score <= max) {
+          zset.delete(member)
+          removed++
+        }
+      }
+      return removed
+    },
+  }
+
+  return {
+    kind: "memory",
+
+    async ping() {},
+
+    async get(key) {
+      return ctx.get(key)
+    },
+
+    async set(key, value, options) {
+      return ctx.set(key, value, options)
+    },
+
+    async del(...keys) {
+      return keys.reduce((removed, key) => removed + ctx.del(key), 0)
+    },
+
+    async pexpireat(key, timestampMs) {
+      ctx.pexpire(key, timestampMs - Date.now())
+    },
+
+    async pttl(key) {
+      const entry = lookup(key)
+      if (!entry) {
+        return -2
+      }
+      return entry.expiresAt === null ? -1 : entry.expiresAt - Date.now()
+    },
+
+    async hget(key, field) {
+      return ctx.hget(key, field)
+    },
+
+    async hset(key, fields) {
+      ctx.hset(key, fields)
+    },
+
+    async hgetall(key) {
+      const hash = read(key, "hash")?.value
+      return hash ? Object.fromEntries(hash) : {}
+    },
+
+    async sadd(key, ...members) {
+      ctx.sadd(key, ...members)
+    },
+
+    async srem(key, ...members) {
+      const set = read(key, "set")?.value
+      for (const member of members) {
+        set?.delete(member)
+      }
+    },
+
+    async smembers(key) {
+      return Array.from(read(key, "set")?.value ?? [])
+    },
+
+    async sismember(key, member) {
+      return read(key, "set")?.value.has(member) ?? false
+    },
+
+    async zrem(key, member) {
+      read(key, "zset")?.value.delete(member)
+    },
+
+    async xadd(key, fields, maxLength) {
+      const stream = write(key, "stream", () => []).value
+
+      // IDs follow Redis: millisecond time plus a sequence within the millisecond
+      const now = Date.now()
+      streamSequence = now === lastStreamMs ? streamSequence + 1 : 0
+      lastStreamMs = now
+
+      stream.push({ id: `${now}-${streamSequence}`, fields: { ...fields } })
+      if (stream.length > maxLength) {
+        stream.splice(0, stream.length - maxLength)
+      }
+    },
+
+    async xlen(key) {
+      return read(key, "stream")?.value.length ?? 0
+    },
+
+    async xrevrange(key, count) {
+      const stream = read(key, "stream")?.value ?? []
+      return stream.slice(-count).reverse()
+    },
+
+    async runScript<T>(script, keys, args) {
+      return toReply(script.run(ctx, keys, args)) as T
+    },
+  }
+}
@@ -0,0 +1,111 @@
+import { getRedisClient } from "@/lib/redis/client"
+import { evalScript } from "@/lib/redis/scripts"
+import type { SetOptions, StorageBackend, StreamEntry } from "./types"
+
+/**
+ * Storage backend on the shared ioredis client
+ * The client is looked up per call since a dropped connection replaces it
+ */
+export function createRedisStorage(): StorageBackend {
+  return {
+    kind: "redis",
+
+    async ping() {
+      await getRedisClient().ping()
+    },
+
+    async get(key) {
+      return getRedisClient().get(key)
+    },
+
+    async set(key: string, value: string, options: SetOptions = {}) {
+      const redis = getRedisClient()
+      let result: string | null
+      if (options.ttlMs && options.onlyIfAbsent) {
+        result = await redis.set(key, value, "PX", options.ttlMs, "NX")
+      } else if (options.ttlMs) {
+        result = await redis.set(key, value, "PX", options.ttlMs)
+      } else if (options.onlyIfAbsent) {
+        result = await redis.set(key, value, "NX")
+      } else {
+        result = await redis.set(key, value)
+      }
+      return result === "OK"
+    },
+
+    async del(...keys) {
+      return getRedisClient().del(...keys)
+    },
+
+    async pexpireat(key, timestampMs) {
+      await getRedisClient().pexpireat(key, timestampMs)
+    },
+
+    async pttl(key) {
+      return getRedisClient().pttl(key)
+    },
+
+    async hget(key, field) {
+      return getRedisClient().hget(key, field)
+    },
+
+    async hset(key, fields) {
+      await getRedisClient().hset(key, fields)
+    },
+
+    async hgetall(key) {
+      return getRedisClient().hgetall(key)
+    },
+
+    async sadd(key, ...members) {
+      await getRedisClient().sadd(key, ...members)
+    },
+
+    async srem(key, ...members) {
+      await getRedisClient().srem(key, ...members)
+    },
+
+    async smembers(key) {
+      return getRedisClient().smembers(key)
+    },
+
+    async sismember(key, member) {
+      return (await getRedisClient().sismember(key, member)) === 1
+    },
+
+    async zrem(key, member) {
+      await getRedisClient().zrem(key, member)
+    },
+
+    async xadd(key, fields, maxLength) {
+      await getRedisClient().xadd(
+        key,
+        "MAXLEN",
+        "~",
+        maxLength.toString(),
+        "*",
+        ...Object.entries(fields).flat()
+      )
+    },
+
+    async xlen(key) {
+      return getRedisClient().xlen(key)
+    },
+
+    async xrevrange(key, count) {
+      const entries = await getRedisClient().xrevrange(key, "+", "-", "COUNT", count)
+
+      return entries.map(([id, values]): StreamEntry => {
+        const fields: Record<string, string> = {}
+        for (let i = 0; i < values.length; i += 2) {
+          fields[values[i]] = values[i + 1]
+        }
+        return { id, fields }
+      })
+    },
+
+    async runScript(script, keys, args) {
+      return evalScript(script, keys, args)
+    },
+  }
+}
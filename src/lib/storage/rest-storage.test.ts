@@ -0,0 +1,93 @@
+import { once } from "node:events"
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest"
+
+vi.hoisted(() => {
+  process.env.REST_PROXY_PORT = "18079"
+  process.env.REDIS_REST_TOKEN = "test-token"
+})
+
+import { rateLimitScript } from "@/lib/redis/fixed-window"
+import { server } from "../../../scripts/rest-redis-proxy.mjs"
+import { createRestStorage, RestStorageError } from "./rest-storage"
+
+// The proxy stand-in forwards to the mocked ioredis
+vi.mock("ioredis", () => import("@/test/ioredis-mock"))
+
+const url = "http://127.0.0.1:18079"
+
+beforeAll(async () => {
+  if (!server.listening) {
+    await once(server, "listening")
+  }
+})
+
+afterAll(() => {
+  server.close()
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("REST storage", () => {
+  it("runs commands through the REST endpoint", async () => {
+    const storage = createRestStorage(url, "test-token")
+
+    expect(await storage.set("greeting", "hello", { ttlMs: 60000 })).toBe(true)
+    expect(await storage.set("greeting", "again", { onlyIfAbsent: true })).toBe(false)
+    expect(await storage.get("greeting")).toBe("hello")
+
+    await storage.hset("hash", { a: "1", b: "2" })
+    expect(await storage.hgetall("hash")).toEqual({ a: "1", b: "2" })
+  })
+
+  it("falls back to EVAL when the server does not have the script yet", async () => {
+    const storage = createRestStorage(url, "test-token")
+    const args = ["60000", "86400000", "1", "100", "1"]
+
+    expect(await storage.runScript(rateLimitScript, ["m", "d"], args)).toEqual([1, 1, 0, 0])
+    expect(await storage.runScript(rateLimitScript, ["m", "d"], args)).toEqual([2, 2, 1, 0])
+  })
+
+  it("raises a RestStorageError when the token is rejected", async () => {
+    const storage = createRestStorage(url, "wrong-token")
+
+    const err = await storage.get("greeting").catch((e) => e)
+    expect(err).toBeInstanceOf(RestStorageError)
+    expect(err.message).toBe("Redis REST request failed with status 401: Unauthorized")
+  })
+
+  it("raises a RestStorageError on a server error, even with an error body", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      Response.json({ error: "Service unavailable" }, { status: 503 })
+    )
+    const storage = createRestStorage(url, "test-token")
+
+    await expect(storage.get("greeting")).rejects.toBeInstanceOf(RestStorageError)
+  })
+
+  it("raises a RestStorageError when the reply is not JSON", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("<html>Bad gateway</html>"))
+    const storage = createRestStorage(url, "test-token")
+
+    await expect(storage.get("greeting")).rejects.toBeInstanceOf(RestStorageError)
+  })
+
+  it("raises a RestStorageError when the endpoint cannot be reached", async () => {
+    const storage = createRestStorage("http://127.0.0.1:1", "test-token")
+
+    await expect(storage.ping()).rejects.toBeInstanceOf(RestStorageError)
+  })
+
+  it("passes command errors through as plain errors", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      Response.json({ error: "WRONGTYPE Operation against a key holding the wrong kind of value" }, { status: 400 })
+    )
+    const storage = createRestStorage(url, "test-token")
+
+    const err = await storage.get("hash").catch((e) => e)
+    expect(err).toBeInstanceOf(Error)
+    expect(err).not.toBeInstanceOf(RestStorageError)
+    expect(err.message).toMatch(/^WRONGTYPE/)
+  })
+})
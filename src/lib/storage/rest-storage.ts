@@ -0,0 +1,189 @@
+import type { SetOptions, StorageBackend, StorageScript, StreamEntry } from "./types"
+
+/**
+ * Storage backend over an HTTP REST interface to Redis, for the edge runtime
+ * where TCP clients like ioredis cannot run
+ *
+ * Speaks the Upstash-style protocol: each command is POSTed to the base URL
+ * as a JSON array (["INCRBY", "key", "1"]) with a bearer token, and the reply
+ * comes back as { "result": ... } or { "error": "..." }. Only fetch and Web
+ * Crypto are used, so it runs on any runtime.
+ */
+
+type RestReply = { result?: unknown; error?: string }
+
+/**
+ * Thrown when the REST endpoint cannot be reached, rejects the token or answers
+ * with a server error
+ */
+export class RestStorageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "RestStorageError"
+  }
+}
+
+// SHA1 of each script's source, for EVALSHA
+const scriptShas = new WeakMap<StorageScript<unknown>, Promise<string>>()
+
+async function sha1(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+}
+
+function getScriptSha(script: StorageScript<unknown>): Promise<string> {
+  let sha = scriptShas.get(script)
+  if (!sha) {
+    sha = sha1(script.lua)
+    scriptShas.set(script, sha)
+  }
+  return sha
+}
+
+/**
+ * Turn a flat [field, value, ...] reply into an object; REST servers that
+ * already convert HGETALL replies send an object, which is kept as is
+ */
+function toRecord(reply: unknown): Record<string, string> {
+  if (!Array.isArray(reply)) {
+    return (reply as Record<string, string>) ?? {}
+  }
+  const record: Record<string, string> = {}
+  for (let i = 0; i < reply.length; i += 2) {
+    record[reply[i]] = reply[i + 1]
+  }
+  return record
+}
+
+export function createRestStorage(url: string, token: string): StorageBackend {
+  async function command<T>(...args: (string | number)[]): Promise<T> {
+    let response: Response
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: {
+          authorization: `Bearer ${token}`,
+          "content-type": "application/json",
+        },
+        body: JSON.stringify(args.map(String)),
+        cache: "no-store",
+      })
+    } catch (err) {
+      throw new RestStorageError(
+        `Redis REST request failed: ${err instanceof Error ? err.message : String(err)}`
+      )
+    }
+
+    const reply = (await response.json().catch(() => null)) as RestReply | null
+    // Command errors come back as a 400 with the message; any other HTTP error
+    // (a bad token, an overloaded or unreachable server) means Redis is unusable
+    if (!response.ok && !(response.status === 400 && reply?.error)) {
+      const detail = reply?.error ? `: ${reply.error}` : ""
+      throw new RestStorageError(`Redis REST request failed with status ${response.status}${detail}`)
+    }
+    if (!reply) {
+      throw new RestStorageError("Redis REST reply is not valid JSON")
+    }
+    if (reply.error) {
+      // A command error (WRONGTYPE, NOSCRIPT, ...) rather than a transport failure
+      throw new Error(reply.error)
+    }
+    return reply.result as T
+  }
+
+  return {
+    kind: "rest",
+
+    async ping() {
+      await command("PING")
+    },
+
+    async get(key) {
+      return command<string | null>("GET", key)
+    },
+
+    async set(key: string, value: string, options: SetOptions = {}) {
+      const args: (string | number)[] = ["SET", key, value]
+      if (options.ttlMs) {
+        args.push("PX", options.ttlMs)
+      }
+      if (options.onlyIfAbsent) {
+        args.push("NX")
+      }
+      return (await command<string | null>(...args)) === "OK"
+    },
+
+    async del(...keys) {
+      return command<number>("DEL", ...keys)
+    },
+
+    async pexpireat(key, timestampMs) {
+      await command("PEXPIREAT", key, timestampMs)
+    },
+
+    async pttl(key) {
+      return command<number>("PTTL", key)
+    },
+
+    async hget(key, field) {
+      return command<string | null>("HGET", key, field)
+    },
+
+    async hset(key, fields) {
+      await command("HSET", key, ...Object.entries(fields).flat())
+    },
+
+    async hgetall(key) {
+      return toRecord(await command("HGETALL", key))
+    },
+
+    async sadd(key, ...members) {
+      await command("SADD", key, ...members)
+    },
+
+    async srem(key, ...members) {
+      await command("SREM", key, ...members)
+    },
+
+    async smembers(key) {
+      return command<string[]>("SMEMBERS", key)
+    },
+
+    async sismember(key, member) {
+      return (await command<number>("SISMEMBER", key, member)) === 1
+    },
+
+    async zrem(key, member) {
+      await command("ZREM", key, member)
+    },
+
+    async xadd(key, fields, maxLength) {
+      await command("XADD", key, "MAXLEN", "~", maxLength, "*", ...Object.entries(fields).flat())
+    },
+
+    async xlen(key) {
+      return command<number>("XLEN", key)
+    },
+
+    async xrevrange(key, count) {
+      const entries = await command<[string, string[]][]>("XREVRANGE", key, "+", "-", "COUNT", count)
+
+      return entries.map(([id, values]): StreamEntry => ({ id, fields: toRecord(values) }))
+    },
+
+    async runScript(script, keys, args) {
+      const sha = await getScriptSha(script)
+      try {
+        return await command("EVALSHA", sha, keys.length, ...keys, ...args)
+      } catch (err) {
+        if (!(err instanceof Error) || !err.message.includes("NOSCRIPT")) {
+          throw err
+        }
+        // First run against this server; EVAL caches the script for later EVALSHAs
+        return command("EVAL", script.lua, keys.length, ...keys, ...args)
+      }
+    },
+  }
+}
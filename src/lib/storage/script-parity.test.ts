@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { getRedisClient } from "@/lib/redis/client"
+import "@/lib/redis/concurrency"
+import "@/lib/redis/fixed-window"
+import "@/lib/redis/load-shedding"
+import "@/lib/redis/penalty-box"
+import "@/lib/redis/rate-limiter"
+import { createMemoryStorage } from "./memory-storage"
+import { createRedisStorage } from "./redis-storage"
+import { getRegisteredScripts, getScript } from "./script-registry"
+import type { StorageBackend } from "./types"
+
+vi.mock("ioredis", () => import("@/test/ioredis-mock"))
+
+/**
+ * Runs each script's Lua (on the mocked Redis) and its in-memory `run` through
+ * the same steps, and expects the same replies and the same keys afterwards
+ */
+
+const START = new Date("2025-03-10T12:00:10Z").getTime()
+const MINUTE = 60 * 1000
+const DAY = 24 * 60 * MINUTE
+
+type Step = {
+  script: string
+  keys: string[]
+  args: (string | number)[]
+  advanceMs?: number // clock moves this far before the step runs
+}
+
+type ParityCase = {
+  name: string
+  steps: Step[]
+  strings?: string[] // counters compared afterwards, with their TTLs
+  hashes?: string[]
+}
+
+function repeat(times: number, step: Step): Step[] {
+  return Array.from({ length: times }, () => step)
+}
+
+const cases: ParityCase[] = [
+  {
+    name: "rateLimit counts every request and reports the first window over its limit",
+    steps: [
+      ...repeat(4, { script: "rateLimit", keys: ["m", "d"], args: [50000, DAY, 3, 5, 1] }),
+      ...repeat(3, { script: "rateLimit", keys: ["m2", "d"], args: [MINUTE, DAY, 3, 5, 1] }),
+    ],
+    strings: ["m", "m2", "d"],
+  },
+  {
+    name: "rateLimit charges the billing period by cost",
+    steps: repeat(3, {
+      script: "rateLimit",
+      keys: ["m", "d", "mo"],
+      args: [MINUTE, DAY, 100, 100, 2, 30 * DAY, 5],
+    }),
+    strings: ["m", "d", "mo"],
+  },
+  {
+    name: "slidingWindow weighs the previous minute into the estimate",
+    steps: [
+      ...repeat(4, { script: "slidingWindow", keys: ["m1", "m0", "d"], args: [MINUTE, DAY, 5, 100, 0, 1] }),
+      ...repeat(4, { script: "slidingWindow", keys: ["m2", "m1", "d"], args: [MINUTE, DAY, 5, 100, 0.5, 1] }),
+    ],
+    strings: ["m1", "m2", "d"],
+  },
+  {
+    name: "slidingWindow checks the day and billing period before charging",
+    steps: [
+      ...repeat(3, {
+        script: "slidingWindow",
+        keys: ["m", "p", "d", "mo"],
+        args: [MINUTE, DAY, 100, 4, 0, 1, 30 * DAY, 100],
+      }),
+      ...repeat(2, {
+        script: "slidingWindow",
+        keys: ["m", "p", "d", "mo"],
+        args: [MINUTE, DAY, 100, 100, 0, 2, 30 * DAY, 6],
+      }),
+    ],
+    strings: ["m", "d", "mo"],
+  },
+  {
+    name: "tokenBucket refills fractionally and reserves short waits",
+    steps: [
+      ...repeat(4, { script: "tokenBucket", keys: ["b"], args: [0.5, 3, START, 1, 0] }),
+      { script: "tokenBucket", keys: ["b"], args: [0.5, 3, START + 1500, 1, 0] },
+      { script: "tokenBucket", keys: ["b"], args: [0.5, 3, START + 2500, 1, 2000] },
+      { script: "tokenBucket", keys: ["b"], args: [0.5, 3, START + 2600, 2, 1000] },
+      { script: "tokenBucket", keys: ["b"], args: [0.5, 3, START + 60000, 1, 0] },
+    ],
+    hashes: ["b"],
+  },
+  {
+    name: "gcra spaces requests and reserves slots within the maximum delay",
+    steps: [
+      ...repeat(5, { script: "gcra", keys: ["tat", "d"], args: [1000, 3000, START, DAY, 100, 1, 0] }),
+      { script: "gcra", keys: ["tat", "d"], args: [1000, 3000, START + 500, DAY, 100, 1, 1000] },
+      { script: "gcra", keys: ["tat", "d"], args: [1000, 3000, START + 2500, DAY, 100, 2, 0] },
+    ],
+    strings: ["tat", "d"],
+  },
+  {
+    name: "gcra checks the day and billing period before spending the slot",
+    steps: [
+      ...repeat(3, {
+        script: "gcra",
+        keys: ["tat", "d", "mo"],
+        args: [100, 10000, START, DAY, 2, 1, 0, 30 * DAY, 100],
+      }),
+      ...repeat(2, {
+        script: "gcra",
+        keys: ["tat", "d2", "mo"],
+        args: [100, 10000, START, DAY, 100, 1, 0, 30 * DAY, 3],
+      }),
+    ],
+    strings: ["tat", "d", "d2", "mo"],
+  },
+  {
+    name: "sharedQuota charges no window once any is over, and refundQuota hands units back",
+    steps: [
+      ...repeat(3, { script: "sharedQuota", keys: ["key", "org"], args: [2, 10, MINUTE, 5, DAY] }),
+      { script: "refundQuota", keys: ["key", "org"], args: [2] },
+      { script: "sharedQuota", keys: ["key", "org"], args: [1, 10, MINUTE, 5, DAY] },
+    ],
+    strings: ["key", "org"],
+  },
+  {
+    name: "penaltyBox bans past the threshold and clears the strikes",
+    steps: [
+      ...repeat(4, { script: "penaltyBox", keys: ["strikes", "ban"], args: [3, MINUTE, 5 * MINUTE, START, "key_1"] }),
+      { script: "penaltyBox", keys: ["strikes", "ban"], args: [3, MINUTE, 5 * MINUTE, START, "key_1"] },
+    ],
+    strings: ["strikes"],
+    hashes: ["ban"],
+  },
+  {
+    name: "loadShedding caps admissions and sheds low tiers after an overloaded second",
+    steps: [
+      ...repeat(3, { script: "loadShedding", keys: ["s1", "s0"], args: [4, 0, 4] }),
+      ...repeat(3, { script: "loadShedding", keys: ["s1", "s0"], args: [4, 3, 4] }),
+      ...repeat(3, { script: "loadShedding", keys: ["s2", "s1"], args: [4, 3, 4] }),
+      ...repeat(2, { script: "loadShedding", keys: ["s2", "s1"], args: [4, 1, 4] }),
+    ],
+    hashes: ["s1", "s2"],
+  },
+  {
+    name: "acquireLease caps leases and drops expired ones",
+    steps: [
+      { script: "acquireLease", keys: ["leases"], args: [START, START + 30000, 2, "a"] },
+      { script: "acquireLease", keys: ["leases"], args: [START, START + 30000, 2, "b"] },
+      { script: "acquireLease", keys: ["leases"], args: [START, START + 30000, 2, "c"] },
+      { script: "acquireLease", keys: ["leases"], args: [START + 1000, START + 40000, 2, "d"], advanceMs: 1000 },
+      { script: "acquireLease", keys: ["leases"], args: [START + 31000, START + 61000, 2, "e"], advanceMs: 30000 },
+      { script: "acquireLease", keys: ["leases"], args: [START + 31000, START + 61000, 2, "f"] },
+    ],
+  },
+]
+
+// The mocked Redis runs Lua 5.3, which writes floats that hold whole numbers
+// as "3.0"; Redis runs Lua 5.1 and writes "3". Compare numbers by value.
+function normalize(value: string | null): string | number | null {
+  return value !== null && value !== "" && !isNaN(Number(value)) ? Number(value) : value
+}
+
+async function runCase(storage: StorageBackend, parityCase: ParityCase) {
+  vi.setSystemTime(START)
+
+  const replies: unknown[] = []
+  for (const step of parityCase.steps) {
+    if (step.advanceMs) {
+      vi.setSystemTime(Date.now() + step.advanceMs)
+    }
+    const script = getScript(step.script)
+    if (!script) {
+      throw new Error(`Script ${step.script} is not registered`)
+    }
+    replies.push(await storage.runScript(script, step.keys, step.args.map(String)))
+  }
+
+  const keys: Record<string, unknown> = {}
+  for (const key of parityCase.strings ?? []) {
+    keys[key] = { value: normalize(await storage.get(key)), pttl: await storage.pttl(key) }
+  }
+  for (const key of parityCase.hashes ?? []) {
+    const fields = Object.entries(await storage.hgetall(key)).map(([field, value]) => [field, normalize(value)])
+    keys[key] = { fields: Object.fromEntries(fields), pttl: await storage.pttl(key) }
+  }
+
+  return { replies, keys }
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ["Date"] })
+  await getRedisClient().flushall()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("script parity", () => {
+  it("covers every registered script", () => {
+    const covered = new Set(cases.flatMap((c) => c.steps.map((step) => step.script)))
+    expect(Array.from(covered).sort()).toEqual(getRegisteredScripts().map((s) => s.name).sort())
+  })
+
+  it.each(cases)("$name", async (parityCase) => {
+    const lua = await runCase(createRedisStorage(), parityCase)
+    const memory = await runCase(createMemoryStorage(), parityCase)
+
+    expect(memory).toEqual(lua)
+  })
+})
@@ -0,0 +1,27 @@
+import type { StorageScript } from "./types"
+
+/**
+ * Registry of the limiter's scripts, by name
+ * Kept free of any client so edge code can register and share scripts too
+ */
+
+const scripts = new Map<string, StorageScript<unknown>>()
+
+/**
+ * Add a script to the registry; modules register their scripts when loaded
+ */
+export function registerScript<T>(script: StorageScript<T>): StorageScript<T> {
+  scripts.set(script.name, script)
+  return script
+}
+
+/**
+ * Look up a registered script by name
+ */
+export function getScript(name: string): StorageScript<unknown> | undefined {
+  return scripts.get(name)
+}
+
+export function getRegisteredScripts(): StorageScript<unknown>[] {
+  return Array.from(scripts.values())
+}
@@ -0,0 +1,80 @@
+/**
+ * Storage backend abstraction for counters, hashes, sets and event streams
+ */
+
+export type StorageBackendKind = "redis" | "memory" | "rest"
+
+export type SetOptions = {
+  ttlMs?: number // expire the key after this many milliseconds
+  onlyIfAbsent?: boolean // like SET NX; returns false when the key already exists
+}
+
+export type StreamEntry = {
+  id: string
+  fields: Record<string, string>
+}
+
+/**
+ * Synchronous commands available to a script's in-memory implementation
+ * Mirrors the subset of Redis commands the Lua scripts call
+ */
+export interface ScriptContext {
+  get(key: string): string | null
+  set(key: string, value: string, options?: SetOptions): boolean
+  del(key: string): number
+  incrby(key: string, increment: number): number
+  pexpire(key: string, ttlMs: number): void
+  hget(key: string, field: string): string | null
+  hmget(key: string, ...fields: string[]): (string | null)[]
+  hset(key: string, fields: Record<string, string>): void
+  hincrby(key: string, field: string, increment: number): number
+  sadd(key: string, ...members: string[]): void
+  zadd(key: string, score: number, member: string): void
+  zcard(key: string): number
+  zremrangebyscore(key: string, min: number, max: number): number
+}
+
+/**
+ * An atomic multi-step operation: Lua for Redis, plus an equivalent
+ * implementation the in-memory backend runs synchronously
+ * `run` returns numbers as Lua would; the backend truncates them to integers
+ * the way Redis converts Lua replies
+ * T is the reply's shape, so callers of runScript get it typed
+ */
+export type StorageScript<T = unknown> = {
+  name: string // registered as an ioredis command, so it must not clash with a Redis command
+  lua: string
+  run: (ctx: ScriptContext, keys: string[], args: string[]) => T
+}
+
+export interface StorageBackend {
+  readonly kind: StorageBackendKind
+
+  ping(): Promise<void>
+
+  // Strings and counters
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, options?: SetOptions): Promise<boolean>
+  del(...keys: string[]): Promise<number>
+  pexpireat(key: string, timestampMs: number): Promise<void>
+  pttl(key: string): Promise<number> // -2 when missing, -1 without expiry
+
+  // Hashes
+  hget(key: string, field: string): Promise<string | null>
+  hset(key: string, fields: Record<string, string>): Promise<void>
+  hgetall(key: string): Promise<Record<string, string>>
+
+  // Sets and sorted sets
+  sadd(key: string, ...members: string[]): Promise<void>
+  srem(key: string, ...members: string[]): Promise<void>
+  smembers(key: string): Promise<string[]>
+  sismember(key: string, member: string): Promise<boolean>
+  zrem(key: string, member: string): Promise<void>
+
+  // Streams, newest entries first from xrevrange
+  xadd(key: string, fields: Record<string, string>, maxLength: number): Promise<void>
+  xlen(key: string): Promise<number>
+  xrevrange(key: string, count: number): Promise<StreamEntry[]>
+
+  runScript<T>(script: StorageScript<T>, keys: string[], args: string[]): Promise<T>
+}
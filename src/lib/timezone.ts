@@ -0,0 +1,120 @@
+/**
+ * IANA time zone helpers for calendar windows (daily resets, billing periods)
+ */
+
+export const DEFAULT_TIME_ZONE = "UTC"
+
+export type ZonedParts = {
+  year: number
+  month: number // 0-based, like Date#getUTCMonth
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+// Building a formatter is expensive and the set of zones in use is small
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Calendar fields of an instant as seen in the given time zone
+ */
+export function getZonedParts(date: Date, timeZone: string = DEFAULT_TIME_ZONE): ZonedParts {
+  if (timeZone === DEFAULT_TIME_ZONE) {
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth(),
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+    }
+  }
+
+  const values: Record<string, number> = {}
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") {
+      values[part.type] = parseInt(part.value, 10)
+    }
+  }
+
+  return {
+    year: values.year,
+    month: values.month - 1,
+    day: values.day,
+    hour: values.hour,
+    minute: values.minute,
+    second: values.second,
+  }
+}
+
+/**
+ * Offset of the time zone from UTC at the given instant, in milliseconds
+ */
+function getOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone)
+  const asUtc = Date.UTC(p.year, p.month, p.day, p.hour, p.minute, p.second)
+  return asUtc - (date.getTime() - date.getUTCMilliseconds())
+}
+
+/**
+ * Instant of local midnight starting the given calendar day
+ * Out-of-range days and months roll over, as with Date.UTC
+ */
+export function getZonedMidnight(
+  year: number,
+  month: number,
+  day: number,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Date {
+  const wallClock = Date.UTC(year, month, day)
+  const offset = getOffsetMs(new Date(wallClock), timeZone)
+  // Re-check the offset at the candidate in case a DST change falls in between
+  const corrected = getOffsetMs(new Date(wallClock - offset), timeZone)
+  return new Date(wallClock - corrected)
+}
+
+/**
+ * ISO 8601 timestamp in the time zone's local time with its offset,
+ * e.g. "2025-03-01T00:00:00-08:00"
+ */
+export function formatInTimeZone(date: Date, timeZone: string = DEFAULT_TIME_ZONE): string {
+  const p = getZonedParts(date, timeZone)
+  const offsetMinutes = Math.round(getOffsetMs(date, timeZone) / 60000)
+
+  const pad = (value: number) => String(value).padStart(2, "0")
+  const sign = offsetMinutes < 0 ? "-" : "+"
+  const offset =
+    offsetMinutes === 0
+      ? "Z"
+      : `${sign}${pad(Math.floor(Math.abs(offsetMinutes) / 60))}:${pad(Math.abs(offsetMinutes) % 60)}`
+
+  return `${p.year}-${pad(p.month + 1)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}${offset}`
+}
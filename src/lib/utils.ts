@@ -26,6 +26,16 @@ export function maskApiKey(key: string): string {
   return `${key.slice(0, 8)}...${key.slice(-4)}`;
 }
 
+/**
+ * Match a request path against an exact path, or a prefix ending in "*"
+ */
+export function matchesEndpoint(pattern: string, endpoint: string): boolean {
+  if (pattern.endsWith('*')) {
+    return endpoint.startsWith(pattern.slice(0, -1));
+  }
+  return pattern === endpoint;
+}
+
 /**
  * Format number with commas
  */
@@ -0,0 +1,14 @@
+import type { NextRequest } from "next/server"
+import { edgeRateLimit } from "@/lib/middleware/edge-rate-limit"
+
+/**
+ * Apply the EDGE_RATE_LIMIT_RULES limits before any route code runs
+ * The matcher only skips static assets; the rules decide which paths are limited
+ */
+export function middleware(request: NextRequest) {
+  return edgeRateLimit(request)
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+}
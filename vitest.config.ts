@@ -0,0 +1,14 @@
+import path from "node:path"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname, "src") },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+    // Modules read env at import time, so each test file gets fresh module state
+    isolate: true,
+  },
+})